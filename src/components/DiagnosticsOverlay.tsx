@@ -0,0 +1,165 @@
+import { Icon, IconButton, useStyles2 } from '@grafana/ui';
+import React, { useState } from 'react';
+import { css } from '@emotion/css';
+
+import { GrafanaTheme2 } from '@grafana/data';
+import { LogMatchMethod, LogMatchStats, ParseDiagnostics } from '../types';
+import { formatDetectedTimeUnit } from '../utils/timeUnits';
+
+interface DiagnosticsOverlayProps {
+  diagnostics: ParseDiagnostics;
+  traceCount: number;
+  spanCount: number;
+  logCount: number;
+  // Matching statistics of the displayed trace, when there is one
+  matchStats?: LogMatchStats;
+}
+
+const MATCH_METHOD_LABELS: Record<LogMatchMethod, string> = {
+  spanId: 'span ID',
+  label: 'span ID label',
+  regex: 'regex rule',
+  timeWindow: 'time window',
+};
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  overlay: css`
+    position: absolute;
+    top: 8px;
+    right: 8px;
+    z-index: 5;
+    width: 360px;
+    max-width: calc(100% - 16px);
+    max-height: calc(100% - 16px);
+    overflow: auto;
+    padding: 8px 12px;
+    font-size: 12px;
+    text-align: left;
+    background: ${theme.colors.background.primary};
+    border: 1px solid ${theme.colors.border.medium};
+    border-radius: ${theme.shape.radius.default};
+    box-shadow: ${theme.shadows.z2};
+  `,
+  header: css`
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    font-weight: 600;
+  `,
+  title: css`
+    flex: 1;
+  `,
+  section: css`
+    margin-top: 8px;
+  `,
+  sectionTitle: css`
+    font-size: 11px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+    color: ${theme.colors.text.secondary};
+    margin-bottom: 2px;
+  `,
+  fields: css`
+    color: ${theme.colors.text.secondary};
+    font-family: ${theme.typography.fontFamilyMonospace};
+    font-size: 11px;
+    word-break: break-all;
+  `,
+  warning: css`
+    color: ${theme.colors.warning.text};
+  `,
+});
+
+/**
+ * In-panel overlay (the "Diagnostics" option) describing how the panel data was parsed: frames and the field
+ * found for each role, detected units, counts, log matches per method and parse warnings
+ */
+export const DiagnosticsOverlay: React.FC<DiagnosticsOverlayProps> = ({
+  diagnostics,
+  traceCount,
+  spanCount,
+  logCount,
+  matchStats,
+}) => {
+  const styles = useStyles2(getStyles);
+  const [isExpanded, setIsExpanded] = useState(true);
+  const units = [
+    diagnostics.startTime && `span start ${formatDetectedTimeUnit(diagnostics.startTime)}`,
+    diagnostics.duration && `duration ${formatDetectedTimeUnit(diagnostics.duration)}`,
+    diagnostics.logTimestamp && `log time ${formatDetectedTimeUnit(diagnostics.logTimestamp)}`,
+  ].filter(Boolean);
+
+  return (
+    <div className={styles.overlay} onClick={(e) => e.stopPropagation()}>
+      <div className={styles.header}>
+        <Icon name="info-circle" size="sm" />
+        <span className={styles.title}>Diagnostics</span>
+        <IconButton
+          name={isExpanded ? 'angle-up' : 'angle-down'}
+          size="sm"
+          tooltip={isExpanded ? 'Collapse' : 'Expand'}
+          onClick={() => setIsExpanded(!isExpanded)}
+        />
+      </div>
+      {isExpanded && (
+        <>
+          <div className={styles.section}>
+            <div className={styles.sectionTitle}>Frames</div>
+            {diagnostics.frames.length === 0 && <div>No frame parsed</div>}
+            {diagnostics.frames.map((frame, index) => (
+              <div key={index}>
+                <div>
+                  {frame.refId ?? `#${frame.index}`}: {frame.parser}, {frame.rows} rows
+                </div>
+                <div className={styles.fields}>
+                  {Object.entries(frame.fields)
+                    .map(([role, name]) => `${role}=${name ?? '—'}`)
+                    .join(' ')}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {units.length > 0 && (
+            <div className={styles.section}>
+              <div className={styles.sectionTitle}>Units</div>
+              <div>{units.join(', ')}</div>
+            </div>
+          )}
+
+          <div className={styles.section}>
+            <div className={styles.sectionTitle}>Counts</div>
+            <div>
+              {traceCount} traces, {spanCount} spans, {logCount} logs
+            </div>
+          </div>
+
+          {matchStats && (
+            <div className={styles.section}>
+              <div className={styles.sectionTitle}>Log matching (selected trace)</div>
+              {(Object.keys(MATCH_METHOD_LABELS) as LogMatchMethod[]).map((method) => (
+                <div key={method}>
+                  {MATCH_METHOD_LABELS[method]}: {matchStats.byMethod[method]}
+                </div>
+              ))}
+              <div>unattributed: {matchStats.unattributed}</div>
+              <div>spans with logs: {matchStats.spansWithLogs}</div>
+            </div>
+          )}
+
+          {diagnostics.warnings.length > 0 && (
+            <div className={styles.section}>
+              <div className={styles.sectionTitle}>Warnings</div>
+              {diagnostics.warnings.map((warning, index) => (
+                <div key={index} className={styles.warning}>
+                  <Icon name="exclamation-triangle" size="xs" /> {warning}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
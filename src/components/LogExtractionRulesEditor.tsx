@@ -0,0 +1,103 @@
+import { Button, IconButton, Input, useStyles2 } from '@grafana/ui';
+import React, { useMemo } from 'react';
+import { css } from '@emotion/css';
+
+import { GrafanaTheme2, StandardEditorProps } from '@grafana/data';
+import { SimpleOptions } from '../types';
+import { applyLogExtractionRules, compileLogExtractionRules } from '../utils/logBody';
+import { parseLogData } from '../utils/traceUtils';
+
+type Props = StandardEditorProps<string[], unknown, SimpleOptions>;
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  rule: css`
+    margin-bottom: 8px;
+  `,
+  row: css`
+    display: flex;
+    align-items: center;
+    gap: 4px;
+  `,
+  preview: css`
+    font-size: 12px;
+    color: ${theme.colors.text.secondary};
+    margin-top: 2px;
+  `,
+  error: css`
+    font-size: 12px;
+    color: ${theme.colors.error.text};
+    margin-top: 2px;
+  `,
+});
+
+/**
+ * Options editor for the regex log ID extraction rules, with a live count of the logs each rule matches in the
+ * current panel data. Rules only run on logs that have no trace or span ID from fields, labels or a structured body.
+ */
+export const LogExtractionRulesEditor: React.FC<Props> = ({ value, onChange, context }) => {
+  const styles = useStyles2(getStyles);
+  const patterns = useMemo(() => value ?? [], [value]);
+
+  const preview = useMemo(() => {
+    const rules = compileLogExtractionRules(patterns);
+    const logs = parseLogData(context.data, {
+      lokiTraceIdField: context.options?.lokiTraceIdField,
+      lokiSpanIdField: context.options?.lokiSpanIdField,
+    });
+    const unmatched = logs.filter((log) => !log.traceId || !log.spanId);
+    const counts = new Map<string, number>();
+    unmatched.forEach((log) => {
+      const match = applyLogExtractionRules(rules, log.line);
+      if (match) {
+        const pattern = rules[match.ruleIndex].pattern;
+        counts.set(pattern, (counts.get(pattern) ?? 0) + 1);
+      }
+    });
+    const errors = new Map(rules.filter((r) => r.error).map((r) => [r.pattern, r.error!]));
+    return { total: logs.length, unmatched: unmatched.length, counts, errors };
+  }, [patterns, context.data, context.options?.lokiTraceIdField, context.options?.lokiSpanIdField]);
+
+  const updatePattern = (index: number, pattern: string) => {
+    onChange(patterns.map((p, i) => (i === index ? pattern : p)));
+  };
+
+  return (
+    <div>
+      {patterns.map((pattern, index) => {
+        const error = preview.errors.get(pattern);
+        return (
+          <div key={index} className={styles.rule}>
+            <div className={styles.row}>
+              <Input
+                value={pattern}
+                placeholder="trace=(?<traceId>\w+) span=(?<spanId>\w+)"
+                onChange={(e) => updatePattern(index, e.currentTarget.value)}
+              />
+              <IconButton
+                name="trash-alt"
+                tooltip="Remove rule"
+                onClick={() => onChange(patterns.filter((_, i) => i !== index))}
+              />
+            </div>
+            {error ? (
+              <div className={styles.error}>Invalid regex: {error}</div>
+            ) : (
+              pattern.trim() && (
+                <div className={styles.preview}>
+                  Matches {preview.counts.get(pattern) ?? 0} of {preview.unmatched} logs without IDs
+                </div>
+              )
+            )}
+          </div>
+        );
+      })}
+      <Button icon="plus" size="sm" variant="secondary" onClick={() => onChange([...patterns, ''])}>
+        Add rule
+      </Button>
+      <div className={styles.preview}>
+        {preview.unmatched} of {preview.total} logs in the current data have no trace or span ID field, label or
+        structured body key
+      </div>
+    </div>
+  );
+};
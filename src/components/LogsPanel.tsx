@@ -1,15 +1,37 @@
-import { Icon, IconButton, useStyles2, useTheme2 } from '@grafana/ui';
+import { Icon, IconButton, Tooltip, useStyles2, useTheme2 } from '@grafana/ui';
 import React, { useState } from 'react';
 import { css, cx, keyframes } from '@emotion/css';
 
 import { GrafanaTheme2 } from '@grafana/data';
-import { LogLine } from '../types';
+import { LogLine, LogMatchMethod, SpanLog } from '../types';
+import { getLogMatchConfidence, getSpanEventName, isExceptionEvent } from '../utils/traceUtils';
+import { microsecondsToNanoseconds } from '../utils/timeUnits';
 
 interface LogsPanelProps {
   logs: LogLine[];
   spanStartTime: number;
+  events?: SpanLog[];
 }
 
+// Badge text and tooltip for each way a log can be matched to a span
+const MATCH_METHODS: Record<LogMatchMethod, { label: string; description: string }> = {
+  spanId: { label: 'span id', description: 'Matched by its span ID' },
+  label: { label: 'label', description: 'Matched by a span ID label' },
+  regex: { label: 'regex', description: 'Matched by a span ID extracted with a regex rule' },
+  timeWindow: { label: '~time', description: 'Guessed: same trace ID and timestamp inside the span' },
+};
+
+const NS_PER_MS = BigInt(1000000);
+
+// Drop trailing zeros from fraction digits, keeping at least minDigits
+const trimFraction = (digits: string, minDigits: number): string => {
+  let end = digits.length;
+  while (end > minDigits && digits[end - 1] === '0') {
+    end--;
+  }
+  return digits.slice(0, end);
+};
+
 const slideIn = keyframes`
   from {
     opacity: 0;
@@ -179,31 +201,86 @@ const getStyles = (theme: GrafanaTheme2) => ({
     font-size: 10px;
     color: ${theme.colors.primary.text};
   `,
+  fieldsTable: css`
+    border-collapse: collapse;
+    font-size: 11px;
+
+    td {
+      padding: 2px 12px 2px 0;
+      vertical-align: top;
+    }
+  `,
+  fieldKey: css`
+    color: ${theme.colors.text.secondary};
+    white-space: nowrap;
+  `,
+  fieldValue: css`
+    color: ${theme.colors.text.primary};
+    word-break: break-word;
+  `,
+  matchBadge: css`
+    padding: 0 4px;
+    border: 1px solid;
+    border-radius: 3px;
+    font-size: 10px;
+    margin-right: 12px;
+    flex-shrink: 0;
+    cursor: default;
+  `,
+  matchHigh: css`
+    color: ${theme.colors.success.text};
+  `,
+  matchMedium: css`
+    color: ${theme.colors.warning.text};
+  `,
+  matchLow: css`
+    color: ${theme.colors.text.disabled};
+    border-style: dashed;
+  `,
+  section: css`
+    & + & {
+      margin-top: 12px;
+    }
+  `,
+  eventBadge: css`
+    background: ${theme.colors.primary.main}25;
+    color: ${theme.colors.primary.text};
+  `,
+  eventName: css`
+    font-weight: 600;
+    margin-right: 8px;
+  `,
+  eventFields: css`
+    color: ${theme.colors.text.secondary};
+  `,
 });
 
-export const LogsPanel: React.FC<LogsPanelProps> = ({ logs, spanStartTime }) => {
+export const LogsPanel: React.FC<LogsPanelProps> = ({ logs, spanStartTime, events = [] }) => {
   useTheme2();
   const styles = useStyles2(getStyles);
   const [expandedLog, setExpandedLog] = useState<number | null>(null);
   const [showLabels, setShowLabels] = useState(false);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
 
-  const formatTimestamp = (timestamp: number): string => {
-    // Convert from nanoseconds to milliseconds
-    const date = new Date(timestamp / 1000000);
-    return date.toISOString().split('T')[1].replace('Z', '').slice(0, 12);
+  const formatTimestamp = (timestamp: bigint): string => {
+    // Date only holds milliseconds; the sub-millisecond digits come from the exact nanoseconds
+    const ms = timestamp / NS_PER_MS;
+    const date = new Date(Number(ms));
+    const subMs = trimFraction(String(timestamp - ms * NS_PER_MS).padStart(6, '0'), 0);
+    return date.toISOString().split('T')[1].replace('Z', '').slice(0, 12) + subMs;
   };
 
-  const getRelativeTime = (timestamp: number): string => {
-    // Calculate relative time from span start (both in same units)
-    const diffNs = timestamp - spanStartTime * 1000;
-    const diffMs = diffNs / 1000000;
-    if (diffMs < 0) {
-      return `-${Math.abs(diffMs).toFixed(2)}ms`;
-    }
-    return `+${diffMs.toFixed(2)}ms`;
+  const getRelativeTime = (timestamp: bigint): string => {
+    // Exact nanosecond difference from span start, shown in milliseconds
+    const diffNs = timestamp - microsecondsToNanoseconds(spanStartTime);
+    const abs = diffNs < 0 ? -diffNs : diffNs;
+    const fraction = trimFraction(String(abs % NS_PER_MS).padStart(6, '0'), 2);
+    return `${diffNs < 0 ? '-' : '+'}${abs / NS_PER_MS}.${fraction}ms`;
   };
 
+  // Span events are in microseconds like the span start time
+  const getEventRelativeTime = (timestamp: number): string => getRelativeTime(microsecondsToNanoseconds(timestamp));
+
   const getLevelStyle = (level?: LogLine['level']) => {
     switch (level) {
       case 'error':
@@ -219,7 +296,21 @@ export const LogsPanel: React.FC<LogsPanelProps> = ({ logs, spanStartTime }) =>
     }
   };
 
-  if (logs.length === 0) {
+  const renderMatchBadge = (method?: LogMatchMethod) => {
+    if (!method) {
+      return null;
+    }
+    const confidence = getLogMatchConfidence(method);
+    const confidenceStyle =
+      confidence === 'high' ? styles.matchHigh : confidence === 'medium' ? styles.matchMedium : styles.matchLow;
+    return (
+      <Tooltip content={`${MATCH_METHODS[method].description} (${confidence} confidence)`}>
+        <span className={cx(styles.matchBadge, confidenceStyle)}>{MATCH_METHODS[method].label}</span>
+      </Tooltip>
+    );
+  };
+
+  if (logs.length === 0 && events.length === 0) {
     return (
       <div className={styles.container}>
         <div className={styles.noLogs}>No logs found for this span</div>
@@ -229,79 +320,128 @@ export const LogsPanel: React.FC<LogsPanelProps> = ({ logs, spanStartTime }) =>
 
   return (
     <div className={styles.container}>
-      <div className={styles.header}>
-        <div className={styles.title}>
-          <Icon name="document-info" size="sm" className={styles.titleIcon} />
-          Related Logs ({logs.length})
-        </div>
-        <div className={styles.controls}>
-          <IconButton
-            name={showLabels ? 'eye' : 'eye-slash'}
-            size="sm"
-            tooltip={showLabels ? 'Hide labels' : 'Show labels'}
-            onClick={() => setShowLabels(!showLabels)}
-          />
-        </div>
-      </div>
-
-      <div className={styles.logsContainer}>
-        {logs.map((log, index) => (
-          <div
-            key={index}
-            className={cx(styles.logLine, expandedLog === index && styles.expandedLine)}
-            onClick={() => setExpandedLog(expandedLog === index ? null : index)}
-          >
-            {expandedLog === index ? (
-              <>
-                <div className={styles.expandedMeta}>
-                  <span className={styles.metaItem}>
-                    <span className={styles.metaLabel}>Time:</span>
-                    {formatTimestamp(log.timestamp)}
+      {events.length > 0 && (
+        <div className={styles.section}>
+          <div className={styles.header}>
+            <div className={styles.title}>
+              <Icon name="bolt" size="sm" className={styles.titleIcon} />
+              Span Events ({events.length})
+            </div>
+          </div>
+          <div className={styles.logsContainer}>
+            {events.map((event, index) => {
+              const isException = isExceptionEvent(event);
+              const fields = event.fields.filter((f) => f.key !== 'event');
+              return (
+                <div key={index} className={styles.logLine}>
+                  <span className={styles.timestamp}>{getEventRelativeTime(event.timestamp)}</span>
+                  <span className={cx(styles.levelBadge, isException ? styles.levelError : styles.eventBadge)}>
+                    event
                   </span>
-                  <span className={styles.metaItem}>
-                    <span className={styles.metaLabel}>Relative:</span>
-                    {getRelativeTime(log.timestamp)}
+                  <span className={cx(styles.message, isException && styles.messageError)}>
+                    <span className={styles.eventName}>{getSpanEventName(event)}</span>
+                    <span className={styles.eventFields}>
+                      {fields.map((f) => `${f.key}=${String(f.value)}`).join(' ')}
+                    </span>
                   </span>
-                  <span className={cx(styles.levelBadge, getLevelStyle(log.level))}>{log.level || 'info'}</span>
                 </div>
-                <div className={cx(styles.message, log.level === 'error' && styles.messageError)}>{log.line}</div>
-                {showLabels && Object.keys(log.labels).length > 0 && (
-                  <div className={styles.labels}>
-                    {Object.entries(log.labels).map(([key, value]) => (
-                      <span key={key} className={styles.label}>
-                        {key}={value}
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {logs.length > 0 && (
+        <div className={styles.section}>
+          <div className={styles.header}>
+            <div className={styles.title}>
+              <Icon name="document-info" size="sm" className={styles.titleIcon} />
+              Related Logs ({logs.length})
+            </div>
+            <div className={styles.controls}>
+              <IconButton
+                name={showLabels ? 'eye' : 'eye-slash'}
+                size="sm"
+                tooltip={showLabels ? 'Hide labels' : 'Show labels'}
+                onClick={() => setShowLabels(!showLabels)}
+              />
+            </div>
+          </div>
+
+          <div className={styles.logsContainer}>
+            {logs.map((log, index) => (
+              <div
+                key={index}
+                className={cx(styles.logLine, expandedLog === index && styles.expandedLine)}
+                onClick={() => setExpandedLog(expandedLog === index ? null : index)}
+              >
+                {expandedLog === index ? (
+                  <>
+                    <div className={styles.expandedMeta}>
+                      <span className={styles.metaItem}>
+                        <span className={styles.metaLabel}>Time:</span>
+                        {formatTimestamp(log.timestamp)}
+                      </span>
+                      <span className={styles.metaItem}>
+                        <span className={styles.metaLabel}>Relative:</span>
+                        {getRelativeTime(log.timestamp)}
                       </span>
-                    ))}
-                  </div>
+                      <span className={cx(styles.levelBadge, getLevelStyle(log.level))}>{log.level || 'info'}</span>
+                      {renderMatchBadge(log.matchMethod)}
+                    </div>
+                    <div className={cx(styles.message, log.level === 'error' && styles.messageError)}>{log.line}</div>
+                    {log.fields && Object.keys(log.fields).length > 0 && (
+                      <table className={styles.fieldsTable}>
+                        <tbody>
+                          {Object.entries(log.fields).map(([key, value]) => (
+                            <tr key={key}>
+                              <td className={styles.fieldKey}>{key}</td>
+                              <td className={styles.fieldValue}>{value}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {showLabels && Object.keys(log.labels).length > 0 && (
+                      <div className={styles.labels}>
+                        {Object.entries(log.labels).map(([key, value]) => (
+                          <span key={key} className={styles.label}>
+                            {key}={value}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <div style={{ display: 'flex', alignItems: 'center', marginRight: 8 }}>
+                      <IconButton
+                        name={copiedIndex === index ? 'check' : 'copy'}
+                        size="sm"
+                        tooltip={copiedIndex === index ? 'Copied' : 'Copy log'}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          try {
+                            navigator.clipboard.writeText(log.line);
+                            setCopiedIndex(index);
+                            window.setTimeout(() => setCopiedIndex((cur) => (cur === index ? null : cur)), 1500);
+                          } catch (err) {
+                            // ignore
+                          }
+                        }}
+                      />
+                    </div>
+                    <span className={styles.timestamp}>{getRelativeTime(log.timestamp)}</span>
+                    <span className={cx(styles.levelBadge, getLevelStyle(log.level))}>{log.level || 'info'}</span>
+                    {renderMatchBadge(log.matchMethod)}
+                    <span className={cx(styles.message, log.level === 'error' && styles.messageError)}>{log.line}</span>
+                  </>
                 )}
-              </>
-            ) : (
-              <>
-                <div style={{ display: 'flex', alignItems: 'center', marginRight: 8 }}>
-                  <IconButton
-                    name={copiedIndex === index ? 'check' : 'copy'}
-                    size="sm"
-                    tooltip={copiedIndex === index ? 'Copied' : 'Copy log'}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      try {
-                        navigator.clipboard.writeText(log.line);
-                        setCopiedIndex(index);
-                        window.setTimeout(() => setCopiedIndex((cur) => (cur === index ? null : cur)), 1500);
-                      } catch (err) {
-                        // ignore
-                      }
-                    }}
-                  />
-                </div>
-                <span className={styles.timestamp}>{getRelativeTime(log.timestamp)}</span>
-                <span className={cx(styles.levelBadge, getLevelStyle(log.level))}>{log.level || 'info'}</span>
-                <span className={cx(styles.message, log.level === 'error' && styles.messageError)}>{log.line}</span>
-              </>
-            )}
+              </div>
+            ))}
           </div>
-        ))}
-      </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,75 @@
+import { Button, ColorPicker, Combobox, ComboboxOption, IconButton, useStyles2 } from '@grafana/ui';
+import React, { useMemo } from 'react';
+import { css } from '@emotion/css';
+
+import { StandardEditorProps } from '@grafana/data';
+import { SimpleOptions } from '../types';
+import { parseTraceData } from '../utils/adapters';
+
+type Override = { service: string; color: string };
+type Props = StandardEditorProps<Override[], unknown, SimpleOptions>;
+
+const getStyles = () => ({
+  row: css`
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    margin-bottom: 8px;
+  `,
+});
+
+/**
+ * Options editor for per-service color overrides. Service names are suggested from the current panel data; any
+ * other name can be typed in.
+ */
+export const ServiceColorOverridesEditor: React.FC<Props> = ({ value, onChange, context }) => {
+  const styles = useStyles2(getStyles);
+  const overrides = useMemo(() => value ?? [], [value]);
+
+  const serviceOptions = useMemo((): Array<ComboboxOption<string>> => {
+    const services = new Set(
+      parseTraceData(context.data, {
+        durationUnit: context.options?.durationUnit ?? 'auto',
+        startTimeUnit: context.options?.startTimeUnit,
+        fieldMapping: context.options?.fieldMapping,
+      }).flatMap((trace) => trace.services)
+    );
+    return Array.from(services)
+      .sort()
+      .map((service) => ({ value: service, label: service }));
+  }, [context.data, context.options?.durationUnit, context.options?.startTimeUnit, context.options?.fieldMapping]);
+
+  const updateOverride = (index: number, override: Partial<Override>) => {
+    onChange(overrides.map((o, i) => (i === index ? { ...o, ...override } : o)));
+  };
+
+  return (
+    <div>
+      {overrides.map((override, index) => (
+        <div key={index} className={styles.row}>
+          <ColorPicker color={override.color} onChange={(color) => updateOverride(index, { color })} />
+          <Combobox
+            options={serviceOptions}
+            value={override.service || null}
+            placeholder="Service name"
+            createCustomValue
+            onChange={(option) => updateOverride(index, { service: option.value })}
+          />
+          <IconButton
+            name="trash-alt"
+            tooltip="Remove override"
+            onClick={() => onChange(overrides.filter((_, i) => i !== index))}
+          />
+        </div>
+      ))}
+      <Button
+        icon="plus"
+        size="sm"
+        variant="secondary"
+        onClick={() => onChange([...overrides, { service: '', color: 'blue' }])}
+      >
+        Add override
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import { Button, Checkbox, Combobox, ComboboxOption, IconButton, Input, useStyles2 } from '@grafana/ui';
+import React, { useMemo } from 'react';
+import { css } from '@emotion/css';
+
+import { GrafanaTheme2, StandardEditorProps } from '@grafana/data';
+import { LogLevel, SeverityPattern, SeverityRules, SimpleOptions } from '../types';
+import { compileSeverityRules, DEFAULT_SEVERITY_RULES } from '../utils/logSeverity';
+import { parseLogData } from '../utils/traceUtils';
+
+type Props = StandardEditorProps<SeverityRules, unknown, SimpleOptions>;
+
+const LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug', 'trace'];
+const LEVEL_OPTIONS: Array<ComboboxOption<LogLevel>> = LEVELS.map((level) => ({ value: level, label: level }));
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  section: css`
+    margin-bottom: 12px;
+  `,
+  heading: css`
+    font-size: 12px;
+    font-weight: 500;
+    margin-bottom: 4px;
+  `,
+  row: css`
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    margin-bottom: 4px;
+  `,
+  level: css`
+    flex-shrink: 0;
+    width: 100px;
+  `,
+  preview: css`
+    font-size: 12px;
+    color: ${theme.colors.text.secondary};
+    margin-top: 2px;
+  `,
+  error: css`
+    font-size: 12px;
+    color: ${theme.colors.error.text};
+    margin-bottom: 4px;
+  `,
+});
+
+/**
+ * Options editor for the severity rules: level field mappings, OTel severity_number ranges, keyword/regex line
+ * rules and allow/deny lists, with the level counts they give the logs in the current panel data.
+ */
+export const SeverityRulesEditor: React.FC<Props> = ({ value, onChange, context }) => {
+  const styles = useStyles2(getStyles);
+  const rules = value ?? DEFAULT_SEVERITY_RULES;
+
+  const preview = useMemo(() => {
+    const logs = parseLogData(context.data, {
+      lokiTraceIdField: context.options?.lokiTraceIdField,
+      lokiSpanIdField: context.options?.lokiSpanIdField,
+      extractionRules: context.options?.logExtractionRules,
+      severityRules: rules,
+    });
+    const counts = new Map<LogLevel, number>();
+    logs.forEach((log) => counts.set(log.level ?? 'info', (counts.get(log.level ?? 'info') ?? 0) + 1));
+    return { total: logs.length, counts, errors: compileSeverityRules(rules).errors };
+  }, [
+    rules,
+    context.data,
+    context.options?.lokiTraceIdField,
+    context.options?.lokiSpanIdField,
+    context.options?.logExtractionRules,
+  ]);
+
+  const update = <K extends keyof SeverityRules>(key: K, items: SeverityRules[K]) => {
+    onChange({ ...rules, [key]: items });
+  };
+
+  const levelSelect = (level: LogLevel, onLevelChange: (level: LogLevel) => void) => (
+    <div className={styles.level}>
+      <Combobox options={LEVEL_OPTIONS} value={level} onChange={(option) => onLevelChange(option.value)} />
+    </div>
+  );
+
+  const removeButton = (onRemove: () => void) => <IconButton name="trash-alt" tooltip="Remove" onClick={onRemove} />;
+
+  const patternInputs = (item: SeverityPattern, onItemChange: (item: SeverityPattern) => void, placeholder: string) => (
+    <>
+      <Input
+        value={item.pattern}
+        placeholder={placeholder}
+        onChange={(e) => onItemChange({ ...item, pattern: e.currentTarget.value })}
+      />
+      <Checkbox
+        label="Regex"
+        value={item.isRegex ?? false}
+        onChange={(e) => onItemChange({ ...item, isRegex: e.currentTarget.checked })}
+      />
+    </>
+  );
+
+  const patternError = (pattern: string) => {
+    const error = preview.errors.get(pattern);
+    return error ? <div className={styles.error}>Invalid regex: {error}</div> : null;
+  };
+
+  const patternList = (key: 'allowList' | 'denyList', heading: string, placeholder: string) => (
+    <div className={styles.section}>
+      <div className={styles.heading}>{heading}</div>
+      {rules[key].map((item, index) => (
+        <React.Fragment key={index}>
+          <div className={styles.row}>
+            {patternInputs(
+              item,
+              (next) =>
+                update(
+                  key,
+                  rules[key].map((p, i) => (i === index ? next : p))
+                ),
+              placeholder
+            )}
+            {removeButton(() =>
+              update(
+                key,
+                rules[key].filter((_, i) => i !== index)
+              )
+            )}
+          </div>
+          {item.isRegex && patternError(item.pattern)}
+        </React.Fragment>
+      ))}
+      <Button icon="plus" size="sm" variant="secondary" onClick={() => update(key, [...rules[key], { pattern: '' }])}>
+        Add pattern
+      </Button>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className={styles.section}>
+        <div className={styles.heading}>Level field values</div>
+        {rules.levelMappings.map((mapping, index) => (
+          <div key={index} className={styles.row}>
+            <Input
+              value={mapping.value}
+              placeholder="err, error, fatal"
+              onChange={(e) =>
+                update(
+                  'levelMappings',
+                  rules.levelMappings.map((m, i) => (i === index ? { ...m, value: e.currentTarget.value } : m))
+                )
+              }
+            />
+            {levelSelect(mapping.level, (level) =>
+              update(
+                'levelMappings',
+                rules.levelMappings.map((m, i) => (i === index ? { ...m, level } : m))
+              )
+            )}
+            {removeButton(() =>
+              update(
+                'levelMappings',
+                rules.levelMappings.filter((_, i) => i !== index)
+              )
+            )}
+          </div>
+        ))}
+        <Button
+          icon="plus"
+          size="sm"
+          variant="secondary"
+          onClick={() => update('levelMappings', [...rules.levelMappings, { value: '', level: 'error' }])}
+        >
+          Add mapping
+        </Button>
+      </div>
+
+      <div className={styles.section}>
+        <div className={styles.heading}>OTel severity_number ranges</div>
+        {rules.severityNumberRanges.map((range, index) => {
+          const setRange = (next: Partial<typeof range>) =>
+            update(
+              'severityNumberRanges',
+              rules.severityNumberRanges.map((r, i) => (i === index ? { ...r, ...next } : r))
+            );
+          return (
+            <div key={index} className={styles.row}>
+              <Input
+                type="number"
+                value={range.min}
+                onChange={(e) => setRange({ min: Number(e.currentTarget.value) })}
+              />
+              <Input
+                type="number"
+                value={range.max}
+                onChange={(e) => setRange({ max: Number(e.currentTarget.value) })}
+              />
+              {levelSelect(range.level, (level) => setRange({ level }))}
+              {removeButton(() =>
+                update(
+                  'severityNumberRanges',
+                  rules.severityNumberRanges.filter((_, i) => i !== index)
+                )
+              )}
+            </div>
+          );
+        })}
+        <Button
+          icon="plus"
+          size="sm"
+          variant="secondary"
+          onClick={() =>
+            update('severityNumberRanges', [...rules.severityNumberRanges, { min: 1, max: 24, level: 'info' }])
+          }
+        >
+          Add range
+        </Button>
+      </div>
+
+      <div className={styles.section}>
+        <div className={styles.heading}>Line rules (for logs without a known level)</div>
+        {rules.lineRules.map((rule, index) => (
+          <React.Fragment key={index}>
+            <div className={styles.row}>
+              {patternInputs(
+                rule,
+                (next) =>
+                  update(
+                    'lineRules',
+                    rules.lineRules.map((r, i) => (i === index ? { ...r, ...next } : r))
+                  ),
+                'error, exception'
+              )}
+              {levelSelect(rule.level, (level) =>
+                update(
+                  'lineRules',
+                  rules.lineRules.map((r, i) => (i === index ? { ...r, level } : r))
+                )
+              )}
+              {removeButton(() =>
+                update(
+                  'lineRules',
+                  rules.lineRules.filter((_, i) => i !== index)
+                )
+              )}
+            </div>
+            {rule.isRegex && patternError(rule.pattern)}
+          </React.Fragment>
+        ))}
+        <Button
+          icon="plus"
+          size="sm"
+          variant="secondary"
+          onClick={() => update('lineRules', [...rules.lineRules, { pattern: '', level: 'error' }])}
+        >
+          Add rule
+        </Button>
+      </div>
+
+      {patternList('allowList', 'Allow list (never classified by line rules)', '0 errors')}
+      {patternList('denyList', 'Deny list (always error)', 'OutOfMemoryError')}
+
+      <div className={styles.preview}>
+        {preview.total} logs in the current data:{' '}
+        {LEVELS.map((level) => `${preview.counts.get(level) ?? 0} ${level}`).join(', ')}
+      </div>
+      <Button size="sm" variant="secondary" fill="text" onClick={() => onChange(DEFAULT_SEVERITY_RULES)}>
+        Reset to defaults
+      </Button>
+    </div>
+  );
+};
@@ -1,14 +1,28 @@
-import { Icon, useStyles2, useTheme2 } from '@grafana/ui';
-import React, { useMemo } from 'react';
+import { Icon, IconButton, useStyles2, useTheme2 } from '@grafana/ui';
+import React, { useMemo, useState } from 'react';
 import { css, cx } from '@emotion/css';
-import { parseLogData, parseTraceData } from '../utils/traceUtils';
+import { createServiceColorScheme, getTraceExploreUrl, parseLogData } from '../utils/traceUtils';
+import { parseTraceData, parseTraceDocument } from '../utils/adapters';
 
 import { PanelProps } from '@grafana/data';
-import { SimpleOptions } from 'types';
+import { LogMatchStats, ParseDiagnostics, SimpleOptions } from 'types';
+import { config } from '@grafana/runtime';
+import { TracePicker } from './TracePicker';
+import { adjustClockSkew } from '../utils/clockSkew';
+import { formatDetectedTimeUnit } from '../utils/timeUnits';
+import { parseSpanFailureRules } from '../utils/spanFailure';
 import { TraceTimeline } from './TraceTimeline';
+import { DiagnosticsOverlay } from './DiagnosticsOverlay';
 
 interface Props extends PanelProps<SimpleOptions> {}
 
+// Height reserved for the trace picker bar when the query returns more than one trace
+const PICKER_HEIGHT = 49;
+// Height reserved for the bar shown while a trace document dropped or pasted into the panel is displayed
+const IMPORT_BAR_HEIGHT = 28;
+// Height of the line listing the time units used for the query data
+const UNITS_LINE_HEIGHT = 20;
+
 const getStyles = () => {
   return {
     wrapper: css`
@@ -47,55 +61,239 @@ const getStyles = () => {
       max-width: 400px;
       line-height: 1.5;
     `,
+    importBar: css`
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 0 12px;
+      font-size: 12px;
+      opacity: 0.8;
+    `,
+    importError: css`
+      font-size: 12px;
+      color: #f2495c;
+    `,
+    unitsLine: css`
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      padding: 0 12px;
+      font-size: 11px;
+      opacity: 0.6;
+      white-space: nowrap;
+      overflow: hidden;
+    `,
+    dropOverlay: css`
+      position: absolute;
+      inset: 0;
+      z-index: 10;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 8px;
+      font-size: 16px;
+      border: 2px dashed currentColor;
+      border-radius: 8px;
+      background: rgba(0, 0, 0, 0.5);
+      pointer-events: none;
+    `,
   };
 };
 
 export const SimplePanel: React.FC<Props> = ({ options, data, width, height }) => {
-  useTheme2();
+  const theme = useTheme2();
   const styles = useStyles2(getStyles);
 
+  // Trace document (OTLP, Jaeger or Zipkin JSON) dropped or pasted into the panel (not persisted with the dashboard)
+  const [importedJson, setImportedJson] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
   // Try to parse trace and log data from the data frames
-  const { trace, logs } = useMemo(() => {
-    console.log('SimplePanel: Processing', data.series.length, 'data frames');
-    // Attempt to parse real trace data from Tempo
-    const parsedTrace = parseTraceData(data.series, options.durationUnit);
+  const { traces, logs, diagnostics } = useMemo(() => {
+    const diagnostics: ParseDiagnostics = { frames: [], warnings: [] };
+    // Imported documents first, then the document from the panel options, then query data frames
+    let parsedTraces = [
+      ...parseTraceDocument(importedJson, diagnostics),
+      ...parseTraceDocument(options.otlpJson ?? '', diagnostics),
+      ...parseTraceData(data.series, {
+        durationUnit: options.durationUnit ?? 'auto',
+        startTimeUnit: options.startTimeUnit,
+        fieldMapping: options.fieldMapping,
+        diagnostics,
+      }),
+    ];
+    if (options.adjustClockSkew ?? true) {
+      parsedTraces = parsedTraces.map(adjustClockSkew);
+    }
     // Attempt to parse real log data from Loki
     const parsedLogs = parseLogData(data.series, {
       lokiTraceIdField: options.lokiTraceIdField,
       lokiSpanIdField: options.lokiSpanIdField,
+      extractionRules: options.logExtractionRules,
+      severityRules: options.severityRules,
+      timestampUnit: options.logTimestampUnit,
+      diagnostics,
     });
 
-    console.log('SimplePanel: parsedTrace', parsedTrace ? 'found' : 'not found');
-    console.log('SimplePanel: parsedLogs count:', parsedLogs.length);
-
-    // Return the parsed data (or null if no trace found)
+    // Return the parsed data (empty list if no trace found)
     return {
-      trace: parsedTrace,
+      traces: parsedTraces,
       logs: parsedLogs,
+      diagnostics,
     };
-  }, [data.series, options.lokiTraceIdField, options.lokiSpanIdField, options.durationUnit]);
+  }, [
+    data.series,
+    options.lokiTraceIdField,
+    options.lokiSpanIdField,
+    options.durationUnit,
+    options.startTimeUnit,
+    options.logTimestampUnit,
+    options.adjustClockSkew,
+    options.otlpJson,
+    options.fieldMapping,
+    options.logExtractionRules,
+    options.severityRules,
+    importedJson,
+  ]);
+
+  const failureRules = useMemo(() => parseSpanFailureRules(options.spanFailureRules), [options.spanFailureRules]);
+  const serviceColors = useMemo(
+    () => createServiceColorScheme(theme, options.serviceColorPalette, options.serviceColorOverrides),
+    [theme, options.serviceColorPalette, options.serviceColorOverrides]
+  );
+
+  // Selected trace when the query returns several; falls back to the first trace if the selection disappears
+  const [selectedTraceId, setSelectedTraceId] = useState<string | undefined>(undefined);
+  const trace = traces.find((t) => t.traceId === selectedTraceId) ?? traces[0];
+  const pickerHeight = traces.length > 1 ? PICKER_HEIGHT : 0;
+  const importBarHeight = importedJson || importError ? IMPORT_BAR_HEIGHT : 0;
+  const unitsLineHeight = diagnostics.startTime || diagnostics.logTimestamp ? UNITS_LINE_HEIGHT : 0;
+
+  // Log match statistics reported by the timeline, only collected while the Diagnostics overlay is on
+  const [matchStats, setMatchStats] = useState<LogMatchStats | undefined>(undefined);
+  const diagnosticsOverlay = options.showDiagnostics && (
+    <DiagnosticsOverlay
+      diagnostics={diagnostics}
+      traceCount={traces.length}
+      spanCount={traces.reduce((sum, t) => sum + t.spans.length, 0)}
+      logCount={logs.length}
+      matchStats={trace ? matchStats : undefined}
+    />
+  );
+
+  const importTraceText = (text: string) => {
+    if (parseTraceDocument(text).length === 0) {
+      setImportError('Not a supported trace document (OTLP JSON, Jaeger JSON or Zipkin v2 JSON)');
+      return;
+    }
+    setImportError(null);
+    setImportedJson(text);
+    setSelectedTraceId(undefined);
+  };
+
+  // Drag-and-drop and paste of trace documents
+  const dropHandlers = {
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(true);
+    },
+    onDragLeave: () => setIsDragging(false),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDragging(false);
+      const file = e.dataTransfer.files[0];
+      if (file) {
+        file.text().then(importTraceText, () => setImportError(`Could not read ${file.name}`));
+      }
+    },
+    onPaste: (e: React.ClipboardEvent) => {
+      // Pastes into the search box and other fields are theirs
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target.isContentEditable) {
+        return;
+      }
+      const text = e.clipboardData.getData('text');
+      if (text.trim().startsWith('{') || text.trim().startsWith('[')) {
+        importTraceText(text);
+      }
+    },
+  };
+
+  const dropOverlay = isDragging && (
+    <div className={styles.dropOverlay}>
+      <Icon name="upload" size="xl" />
+      Drop an OTLP, Jaeger or Zipkin JSON trace file
+    </div>
+  );
+
+  // Tempo datasource of the panel queries, used to open linked traces that are not part of the panel data
+  const tempoDatasourceUid = data.request?.targets.find((t) => t.datasource?.type === 'tempo')?.datasource?.uid;
+
+  // Open a linked trace: switch to it when the panel already has it, otherwise open it in Explore
+  const openTrace = (traceId: string) => {
+    if (traces.some((t) => t.traceId === traceId)) {
+      setSelectedTraceId(traceId);
+      return;
+    }
+    if (tempoDatasourceUid) {
+      const range = { from: String(data.timeRange.from.valueOf()), to: String(data.timeRange.to.valueOf()) };
+      window.open(`${config.appSubUrl}${getTraceExploreUrl(traceId, tempoDatasourceUid, range)}`, '_blank');
+    }
+  };
 
   // Show empty state if there's no data and no demo mode available
   if (!trace) {
     return (
-      <div className={cx(styles.wrapper, styles.emptyState)} style={{ width, height }}>
+      <div className={cx(styles.wrapper, styles.emptyState)} style={{ width, height }} tabIndex={0} {...dropHandlers}>
         <Icon name="gf-traces" size="xxxl" className={styles.emptyIcon} />
         <h3 className={styles.emptyTitle}>No trace data available</h3>
         <p className={styles.emptyDescription}>
           Configure a Tempo datasource query to visualize traces, and optionally add a Loki query to
-          see correlated logs for each span.
+          see correlated logs for each span. You can also drop or paste an OTLP, Jaeger or Zipkin JSON trace export here.
         </p>
+        {importError && <p className={styles.importError}>{importError}</p>}
+        {dropOverlay}
+        {diagnosticsOverlay}
       </div>
     );
   }
 
   return (
-    <div className={styles.wrapper} style={{ width, height }}>
+    <div className={styles.wrapper} style={{ width, height }} tabIndex={0} {...dropHandlers}>
+      {dropOverlay}
+      {diagnosticsOverlay}
+      {importBarHeight > 0 && (
+        <div className={styles.importBar} style={{ height: importBarHeight }}>
+          <Icon name="import" size="sm" />
+          {importError ? (
+            <span className={styles.importError}>{importError}</span>
+          ) : (
+            <span>Showing imported trace document</span>
+          )}
+          <IconButton
+            name="times"
+            size="sm"
+            tooltip={importError ? 'Dismiss' : 'Clear imported traces'}
+            onClick={() => (importError ? setImportError(null) : setImportedJson(''))}
+          />
+        </div>
+      )}
+      {traces.length > 1 && (
+        <div style={{ height: pickerHeight }}>
+          <TracePicker
+            traces={traces}
+            selectedTraceId={trace.traceId}
+            onChange={setSelectedTraceId}
+            failureRules={failureRules}
+          />
+        </div>
+      )}
       <TraceTimeline
         trace={trace}
         logs={logs}
         width={width}
-        height={height}
+        height={height - pickerHeight - importBarHeight - unitsLineHeight}
         showServiceColors={options.showServiceColors}
         showDuration={options.showDuration}
         collapsedByDefault={options.collapsedByDefault}
@@ -107,7 +305,23 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height }) =
         minLogLevel={options.minLogLevel}
         spanFilter={options.spanFilter}
         showRelatedLogs={options.showRelatedLogs}
+        logMatchMode={options.logMatchMode}
+        hideTimeWindowLogs={options.hideTimeWindowLogs}
+        showCriticalPath={options.showCriticalPath}
+        failureRules={failureRules}
+        serviceColors={serviceColors}
+        onMatchStats={options.showDiagnostics ? setMatchStats : undefined}
+        onOpenTrace={openTrace}
+        canOpenTrace={(traceId) => Boolean(tempoDatasourceUid) || traces.some((t) => t.traceId === traceId)}
       />
+      {unitsLineHeight > 0 && (
+        <div className={styles.unitsLine} style={{ height: unitsLineHeight }}>
+          <Icon name="clock-nine" size="xs" />
+          {diagnostics.startTime && <span>Span start: {formatDetectedTimeUnit(diagnostics.startTime)}</span>}
+          {diagnostics.duration && <span>Duration: {formatDetectedTimeUnit(diagnostics.duration)}</span>}
+          {diagnostics.logTimestamp && <span>Log time: {formatDetectedTimeUnit(diagnostics.logTimestamp)}</span>}
+        </div>
+      )}
     </div>
   );
 };
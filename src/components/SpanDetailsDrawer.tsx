@@ -0,0 +1,213 @@
+import { ClipboardButton, IconButton, useStyles2 } from '@grafana/ui';
+import React, { useEffect, useMemo } from 'react';
+import { css, cx } from '@emotion/css';
+
+import { GrafanaTheme2 } from '@grafana/data';
+import { SpanWithLogs } from '../types';
+import { formatDuration, getSpanErrorReason } from '../utils/traceUtils';
+import { getSpanSelfTime, groupSpanTags } from '../utils/spanDetails';
+import { ParsedSpanFailureRule } from '../utils/spanFailure';
+
+interface SpanDetailsDrawerProps {
+  span: SpanWithLogs;
+  traceStart: number;
+  failureRules?: ParsedSpanFailureRule[];
+  onClose: () => void;
+  onFilterByTag: (key: string, value: string) => void;
+  onNavigateToSpan?: (spanId: string) => void;
+}
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  drawer: css`
+    position: absolute;
+    top: 0;
+    right: 0;
+    bottom: 0;
+    z-index: 4;
+    width: 420px;
+    max-width: 80%;
+    display: flex;
+    flex-direction: column;
+    background: ${theme.colors.background.primary};
+    border-left: 1px solid ${theme.colors.border.medium};
+    box-shadow: ${theme.shadows.z3};
+  `,
+  header: css`
+    display: flex;
+    align-items: flex-start;
+    gap: 8px;
+    padding: 12px 16px;
+    border-bottom: 1px solid ${theme.colors.border.weak};
+  `,
+  title: css`
+    flex: 1;
+    min-width: 0;
+  `,
+  service: css`
+    font-size: 11px;
+    color: ${theme.colors.text.secondary};
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+  `,
+  operation: css`
+    font-size: 14px;
+    font-weight: 500;
+    word-break: break-word;
+  `,
+  error: css`
+    font-size: 12px;
+    color: ${theme.colors.error.text};
+    margin-top: 4px;
+  `,
+  body: css`
+    flex: 1;
+    overflow-y: auto;
+    padding: 8px 16px 16px;
+  `,
+  sectionTitle: css`
+    font-size: 11px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+    color: ${theme.colors.text.secondary};
+    margin: 12px 0 4px;
+  `,
+  row: css`
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 2px 0;
+    font-size: 12px;
+    border-bottom: 1px solid ${theme.colors.border.weak};
+  `,
+  key: css`
+    flex: 0 0 40%;
+    color: ${theme.colors.text.secondary};
+    word-break: break-all;
+  `,
+  value: css`
+    flex: 1;
+    min-width: 0;
+    font-family: ${theme.typography.fontFamilyMonospace};
+    word-break: break-all;
+  `,
+  link: css`
+    cursor: pointer;
+    color: ${theme.colors.text.link};
+  `,
+});
+
+/**
+ * Side pane with everything known about a span: IDs, exact timing, self time and all tags grouped by namespace,
+ * each value with a copy button (tags also with a "filter by this value" action)
+ */
+export const SpanDetailsDrawer: React.FC<SpanDetailsDrawerProps> = ({
+  span,
+  traceStart,
+  failureRules,
+  onClose,
+  onFilterByTag,
+  onNavigateToSpan,
+}) => {
+  const styles = useStyles2(getStyles);
+  const tagGroups = useMemo(() => groupSpanTags(span.tags), [span.tags]);
+  const failureReason = getSpanErrorReason(span, failureRules);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Escape in the search box or another field belongs to that field
+      const target = e.target as HTMLElement | null;
+      const isEditable =
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        Boolean(target?.isContentEditable);
+      if (e.key === 'Escape' && !isEditable) {
+        // Handled here only: Grafana would also leave the panel view or edit mode on this Escape
+        e.stopPropagation();
+        e.preventDefault();
+        onClose();
+      }
+    };
+    // Capture phase, so the drawer sees the key before Grafana's own keyboard shortcuts
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  // Timings with a resolution of 1µs, so every digit is shown
+  const overview: Array<{ label: string; value: string; onClick?: () => void }> = [
+    { label: 'Span ID', value: span.spanId },
+    { label: 'Trace ID', value: span.traceId },
+  ];
+  const parentSpanId = span.parentSpanId;
+  if (parentSpanId) {
+    overview.push({
+      label: 'Parent span ID',
+      value: parentSpanId,
+      onClick: onNavigateToSpan && (() => onNavigateToSpan(parentSpanId)),
+    });
+  }
+  overview.push(
+    { label: 'Start offset', value: formatDuration(span.startTime - traceStart, 1) },
+    { label: 'Duration', value: formatDuration(span.duration, 1) },
+    { label: 'Self time', value: formatDuration(getSpanSelfTime(span), 1) }
+  );
+
+  return (
+    <div className={styles.drawer} onClick={(e) => e.stopPropagation()}>
+      <div className={styles.header}>
+        <div className={styles.title}>
+          <div className={styles.service}>{span.serviceName}</div>
+          <div className={styles.operation}>{span.operationName}</div>
+          {failureReason && <div className={styles.error}>Failed: {failureReason}</div>}
+        </div>
+        <IconButton name="times" tooltip="Close (Esc)" onClick={onClose} />
+      </div>
+      <div className={styles.body}>
+        <div className={styles.sectionTitle}>Span</div>
+        {overview.map(({ label, value, onClick }) => (
+          <div key={label} className={styles.row}>
+            <span className={styles.key}>{label}</span>
+            <span className={cx(styles.value, onClick && styles.link)} onClick={onClick}>
+              {value}
+            </span>
+            <ClipboardButton
+              icon="copy"
+              size="sm"
+              variant="secondary"
+              fill="text"
+              aria-label={`Copy ${label}`}
+              getText={() => value}
+            />
+          </div>
+        ))}
+
+        {tagGroups.map((group) => (
+          <React.Fragment key={group.id}>
+            <div className={styles.sectionTitle}>{group.label}</div>
+            {group.tags.map(([key, value]) => (
+              <div key={key} className={styles.row}>
+                <span className={styles.key}>{key}</span>
+                <span className={styles.value}>{String(value)}</span>
+                <IconButton
+                  name="filter"
+                  size="sm"
+                  tooltip="Filter by this value"
+                  onClick={() => onFilterByTag(key, String(value))}
+                />
+                <ClipboardButton
+                  icon="copy"
+                  size="sm"
+                  variant="secondary"
+                  fill="text"
+                  aria-label={`Copy ${key}`}
+                  getText={() => String(value)}
+                />
+              </div>
+            ))}
+          </React.Fragment>
+        ))}
+        {tagGroups.length === 0 && <div className={styles.sectionTitle}>No tags</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import { Button, IconButton, Input, useStyles2 } from '@grafana/ui';
+import React, { useMemo } from 'react';
+import { css } from '@emotion/css';
+
+import { GrafanaTheme2, StandardEditorProps } from '@grafana/data';
+import { SimpleOptions } from '../types';
+import { parseTraceData } from '../utils/adapters';
+import {
+  DEFAULT_SPAN_FAILURE_RULES,
+  getSpanStatus,
+  parseSpanFailureRules,
+  spanMatchesFailureRule,
+} from '../utils/spanFailure';
+
+type Props = StandardEditorProps<string[], unknown, SimpleOptions>;
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  rule: css`
+    margin-bottom: 8px;
+  `,
+  row: css`
+    display: flex;
+    align-items: center;
+    gap: 4px;
+  `,
+  preview: css`
+    font-size: 12px;
+    color: ${theme.colors.text.secondary};
+    margin-top: 2px;
+  `,
+  error: css`
+    font-size: 12px;
+    color: ${theme.colors.error.text};
+    margin-top: 2px;
+  `,
+});
+
+/**
+ * Options editor for the span failure rules, with a live count of the spans each rule matches in the current
+ * panel data. Rules only decide for spans without an OTel status (or with status UNSET).
+ */
+export const SpanFailureRulesEditor: React.FC<Props> = ({ value, onChange, context }) => {
+  const styles = useStyles2(getStyles);
+  const lines = useMemo(() => value ?? DEFAULT_SPAN_FAILURE_RULES, [value]);
+
+  const preview = useMemo(() => {
+    const spans = parseTraceData(context.data, {
+      durationUnit: context.options?.durationUnit ?? 'auto',
+      startTimeUnit: context.options?.startTimeUnit,
+      fieldMapping: context.options?.fieldMapping,
+    }).flatMap((trace) => trace.spans);
+    const unset = spans.filter((span) => !getSpanStatus(span));
+    const parsed = new Map(parseSpanFailureRules(lines).map((rule) => [rule.text, rule]));
+    return { total: spans.length, unset, parsed };
+  }, [
+    lines,
+    context.data,
+    context.options?.durationUnit,
+    context.options?.startTimeUnit,
+    context.options?.fieldMapping,
+  ]);
+
+  const updateLine = (index: number, line: string) => {
+    onChange(lines.map((l, i) => (i === index ? line : l)));
+  };
+
+  return (
+    <div>
+      {lines.map((line, index) => {
+        const parsed = preview.parsed.get(line.trim());
+        return (
+          <div key={index} className={styles.rule}>
+            <div className={styles.row}>
+              <Input
+                value={line}
+                placeholder="http.status_code >= 500"
+                onChange={(e) => updateLine(index, e.currentTarget.value)}
+              />
+              <IconButton
+                name="trash-alt"
+                tooltip="Remove rule"
+                onClick={() => onChange(lines.filter((_, i) => i !== index))}
+              />
+            </div>
+            {parsed?.error ? (
+              <div className={styles.error}>{parsed.error}</div>
+            ) : (
+              parsed?.rule && (
+                <div className={styles.preview}>
+                  Matches {preview.unset.filter((span) => spanMatchesFailureRule(span, parsed.rule!)).length} of{' '}
+                  {preview.unset.length} spans without an OTel status
+                </div>
+              )
+            )}
+          </div>
+        );
+      })}
+      <Button icon="plus" size="sm" variant="secondary" onClick={() => onChange([...lines, ''])}>
+        Add rule
+      </Button>
+      <div className={styles.preview}>
+        {preview.total - preview.unset.length} of {preview.total} spans in the current data have an OTel status, which
+        decides instead of these rules
+      </div>
+    </div>
+  );
+};
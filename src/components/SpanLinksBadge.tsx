@@ -0,0 +1,134 @@
+import { ClipboardButton, Icon, IconButton, Toggletip, useStyles2, useTheme2 } from '@grafana/ui';
+
+import { GrafanaTheme2 } from '@grafana/data';
+import React from 'react';
+import { SpanReference } from '../types';
+import { css } from '@emotion/css';
+
+interface SpanLinksBadgeProps {
+  references: SpanReference[];
+  currentTraceId: string;
+  traceSpanIds: Set<string>;
+  onNavigateToSpan?: (spanId: string) => void;
+  onOpenTrace?: (traceId: string) => void;
+  canOpenTrace?: (traceId: string) => boolean;
+}
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  badge: css`
+    display: inline-flex;
+    align-items: center;
+    gap: 3px;
+    background: ${theme.colors.secondary.main}30;
+    color: ${theme.colors.text.secondary};
+    padding: 1px 6px;
+    border: none;
+    border-radius: 10px;
+    font-size: 10px;
+    font-weight: 500;
+    cursor: pointer;
+
+    &:hover {
+      color: ${theme.colors.text.primary};
+    }
+  `,
+  list: css`
+    display: flex;
+    flex-direction: column;
+    gap: 8px;
+    min-width: 280px;
+  `,
+  item: css`
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 12px;
+  `,
+  itemText: css`
+    flex: 1;
+    min-width: 0;
+  `,
+  refType: css`
+    font-size: 10px;
+    text-transform: uppercase;
+    color: ${theme.colors.text.secondary};
+  `,
+  id: css`
+    font-family: 'JetBrains Mono', 'Fira Code', monospace;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  `,
+});
+
+export const SpanLinksBadge: React.FC<SpanLinksBadgeProps> = ({
+  references,
+  currentTraceId,
+  traceSpanIds,
+  onNavigateToSpan,
+  onOpenTrace,
+  canOpenTrace,
+}) => {
+  useTheme2();
+  const styles = useStyles2(getStyles);
+
+  const isInTrace = (ref: SpanReference) => ref.traceId === currentTraceId && traceSpanIds.has(ref.spanId);
+
+  const badge = (onClick?: () => void) => (
+    <button
+      className={styles.badge}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick?.();
+      }}
+      title={`${references.length} linked ${references.length === 1 ? 'span' : 'spans'}`}
+    >
+      <Icon name="link" size="xs" />
+      {references.length}
+    </button>
+  );
+
+  // A single link within this trace navigates straight to the linked span
+  if (references.length === 1 && isInTrace(references[0])) {
+    return badge(() => onNavigateToSpan?.(references[0].spanId));
+  }
+
+  const content = (
+    <div className={styles.list} onClick={(e) => e.stopPropagation()}>
+      {references.map((ref, i) => (
+        <div key={i} className={styles.item}>
+          <div className={styles.itemText}>
+            <div className={styles.refType}>
+              {ref.refType === 'FOLLOWS_FROM' ? 'follows from' : ref.refType === 'CHILD_OF' ? 'child of' : 'link'}
+              {!isInTrace(ref) && ' · other trace'}
+            </div>
+            <div className={styles.id} title={`${ref.traceId} / ${ref.spanId}`}>
+              {isInTrace(ref) ? ref.spanId : ref.traceId}
+            </div>
+          </div>
+          {isInTrace(ref) ? (
+            <IconButton name="arrow-right" tooltip="Go to span" onClick={() => onNavigateToSpan?.(ref.spanId)} />
+          ) : (
+            <>
+              <ClipboardButton size="sm" variant="secondary" icon="copy" fill="text" getText={() => ref.traceId}>
+                Copy
+              </ClipboardButton>
+              {onOpenTrace && (canOpenTrace?.(ref.traceId) ?? true) && (
+                <IconButton name="external-link-alt" tooltip="Open trace" onClick={() => onOpenTrace(ref.traceId)} />
+              )}
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  // Toggletip takes over the badge click handler, so keep the click from toggling the row here
+  return (
+    <span onClick={(e) => e.stopPropagation()}>
+      <Toggletip title="Span links" content={content} placement="bottom-start" closeButton>
+        {badge()}
+      </Toggletip>
+    </span>
+  );
+};
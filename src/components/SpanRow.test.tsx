@@ -0,0 +1,35 @@
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { SpanRow } from './SpanRow';
+import { SpanWithLogs } from '../types';
+
+const span = (tags: SpanWithLogs['tags']): SpanWithLogs => ({
+  traceId: 'trace',
+  spanId: 'span',
+  operationName: 'GET /orders',
+  serviceName: 'api',
+  startTime: 0,
+  duration: 100,
+  tags,
+  logs: [],
+  events: [],
+  isExpanded: false,
+});
+
+describe('SpanRow', () => {
+  it('shows the HTTP method and status code tags', () => {
+    render(
+      <SpanRow
+        span={span({ 'http.method': 'GET', 'http.status_code': 503 })}
+        traceStart={0}
+        traceDuration={100}
+        isExpanded={false}
+        onToggle={() => {}}
+        timelineWidth={400}
+      />
+    );
+
+    expect(screen.getByText('GET')).toBeInTheDocument();
+    expect(screen.getByText('503')).toBeInTheDocument();
+  });
+});
@@ -1,14 +1,25 @@
 import { Icon, Tooltip, useStyles2, useTheme2 } from '@grafana/ui';
 import { css, cx } from '@emotion/css';
-import { formatDuration, getColorBySeverity, getLogSeverity, getServiceColor, isSpanFailed } from '../utils/traceUtils';
+import {
+  formatDuration,
+  getColorBySeverity,
+  getLogSeverity,
+  getServiceColor,
+  getSpanErrorReason,
+  getSpanEventName,
+  isExceptionEvent,
+} from '../utils/traceUtils';
 
-import { GrafanaTheme2 } from '@grafana/data';
+import { colorManipulator, GrafanaTheme2 } from '@grafana/data';
 import { LogsPanel } from './LogsPanel';
 import React from 'react';
-import { SpanWithLogs } from '../types';
+import { SpanLinksBadge } from './SpanLinksBadge';
+import { CriticalPathSegment, ServiceColorScheme, SpanWithLogs } from '../types';
+import { ParsedSpanFailureRule } from '../utils/spanFailure';
 
 interface SpanRowProps {
   span: SpanWithLogs;
+  // Visible time window of the timeline (the whole trace unless zoomed), bars are placed relative to it
   traceStart: number;
   traceDuration: number;
   isExpanded: boolean;
@@ -21,8 +32,24 @@ interface SpanRowProps {
   warningColor?: string;
   infoColor?: string;
   debugColor?: string;
+  failureRules?: ParsedSpanFailureRule[];
+  serviceColors?: ServiceColorScheme;
   showRelatedLogs?: boolean;
   onToggleRelatedLogs?: () => void;
+  isHighlighted?: boolean;
+  // Matches the span search
+  isSearchMatch?: boolean;
+  // Click on the operation name
+  onOpenDetails?: () => void;
+  // Parts of the span on the trace's critical path
+  criticalSegments?: CriticalPathSegment[];
+  isDimmed?: boolean;
+  // Wheel over the timeline bar area, used to pan the zoomed timeline
+  onTimelineWheel?: (e: React.WheelEvent<HTMLDivElement>) => void;
+  traceSpanIds?: Set<string>;
+  onNavigateToSpan?: (spanId: string) => void;
+  onOpenTrace?: (traceId: string) => void;
+  canOpenTrace?: (traceId: string) => boolean;
 }
 
 const getStyles = (theme: GrafanaTheme2) => ({
@@ -37,6 +64,23 @@ const getStyles = (theme: GrafanaTheme2) => ({
   expanded: css`
     background: ${theme.colors.background.secondary};
   `,
+  placeholder: css`
+    opacity: 0.75;
+
+    & > div:first-child {
+      font-style: italic;
+    }
+  `,
+  dimmed: css`
+    opacity: 0.4;
+  `,
+  searchMatch: css`
+    background: ${theme.colors.warning.transparent};
+  `,
+  highlighted: css`
+    background: ${theme.colors.primary.transparent};
+    box-shadow: inset 3px 0 0 ${theme.colors.primary.main};
+  `,
   row: css`
     display: flex;
     align-items: center;
@@ -113,6 +157,12 @@ const getStyles = (theme: GrafanaTheme2) => ({
     overflow: hidden;
     text-overflow: ellipsis;
   `,
+  operationNameLink: css`
+    &:hover {
+      color: ${theme.colors.text.link};
+      text-decoration: underline;
+    }
+  `,
   timeline: css`
     flex: 2;
     position: relative;
@@ -133,6 +183,40 @@ const getStyles = (theme: GrafanaTheme2) => ({
       box-shadow: 0 0 8px rgba(0, 0, 0, 0.3);
     }
   `,
+  criticalSegment: css`
+    position: absolute;
+    top: 50%;
+    height: 4px;
+    margin-top: -2px;
+    min-width: 2px;
+    border-radius: 2px;
+    background: ${theme.colors.text.primary};
+    opacity: 0.85;
+    pointer-events: none;
+  `,
+  eventMarker: css`
+    position: absolute;
+    top: 50%;
+    width: 8px;
+    height: 8px;
+    margin-left: -4px;
+    transform: translateY(-50%) rotate(45deg);
+    background: ${theme.colors.background.primary};
+    border: 2px solid ${theme.colors.text.primary};
+    z-index: 1;
+  `,
+  eventMarkerException: css`
+    border-color: ${theme.colors.error.main};
+    background: ${theme.colors.error.main};
+  `,
+  eventCount: css`
+    background: ${theme.colors.secondary.main}30;
+    color: ${theme.colors.text.secondary};
+    padding: 1px 6px;
+    border-radius: 10px;
+    font-size: 10px;
+    font-weight: 500;
+  `,
   duration: css`
     width: 80px;
     text-align: right;
@@ -161,6 +245,10 @@ const getStyles = (theme: GrafanaTheme2) => ({
     background: ${theme.colors.error.main}20;
     color: ${theme.colors.error.text};
   `,
+  tagSkew: css`
+    background: ${theme.colors.warning.main}20;
+    color: ${theme.colors.warning.text};
+  `,
 });
 
 export const SpanRow: React.FC<SpanRowProps> = ({
@@ -177,12 +265,24 @@ export const SpanRow: React.FC<SpanRowProps> = ({
   warningColor = '#FF9830',
   infoColor = '#73BF69',
   debugColor = '#A352CC',
+  failureRules,
+  serviceColors,
   showRelatedLogs = true,
   onToggleRelatedLogs,
+  isHighlighted = false,
+  isSearchMatch = false,
+  onOpenDetails,
+  criticalSegments,
+  isDimmed = false,
+  onTimelineWheel,
+  traceSpanIds,
+  onNavigateToSpan,
+  onOpenTrace,
+  canOpenTrace,
 }) => {
   useTheme2();
   const styles = useStyles2(getStyles);
-  const serviceColor = getServiceColor(span.serviceName);
+  const serviceColor = getServiceColor(span.serviceName, serviceColors);
 
   // Determine the color to use based on options
   const spanColor = React.useMemo(() => {
@@ -209,30 +309,32 @@ export const SpanRow: React.FC<SpanRowProps> = ({
   const offsetPercent = ((span.startTime - traceStart) / traceDuration) * 100;
   const widthPercent = (span.duration / traceDuration) * 100;
 
-  // Debug: log span duration raw and formatted for first span
-  React.useEffect(() => {
-    if (span.depth === 0) {
-      try {
-        console.log('SpanRow: spanId=', span.spanId, 'raw duration=', span.duration, 'formatted=', formatDuration(span.duration));
-      } catch (e) {
-        // ignore
-      }
-    }
-  }, [span]);
-
   const depth = span.depth || 0;
   const indentPx = depth * 24;
   const hasLogs = span.logs && span.logs.length > 0;
+  const hasEvents = span.events && span.events.length > 0;
 
-  // Check for error via centralized helper (tags or logs)
-  const hasError = isSpanFailed(span) || (span.logs && span.logs.some((l) => (l.level || '').toString().toLowerCase() === 'error'));
+  // Check for error via centralized helper (status, failure rules or logs); the reason is shown in tooltips
+  const failureReason = getSpanErrorReason(span, failureRules);
+  const hasError = failureReason !== undefined;
+  const statusCode = Number(span.tags['http.status_code']);
 
   return (
-    <div className={cx(styles.container, isExpanded && styles.expanded)}>
+    <div
+      className={cx(
+        styles.container,
+        isExpanded && styles.expanded,
+        span.isPlaceholder && styles.placeholder,
+        isSearchMatch && styles.searchMatch,
+        isDimmed && styles.dimmed,
+        isHighlighted && styles.highlighted
+      )}
+      data-span-id={span.spanId}
+    >
       <div className={styles.row} onClick={onToggle}>
         {/* Expand Icon */}
         <div className={cx(styles.expandIcon, isExpanded && styles.expandIconRotated)}>
-          {hasLogs ? <Icon name="angle-right" size="md" /> : <span style={{ width: 16 }} />}
+          {hasLogs || hasEvents || span.isPlaceholder ? <Icon name="angle-right" size="md" /> : <span style={{ width: 16 }} />}
         </div>
 
         {/* Indentation based on depth */}
@@ -248,11 +350,15 @@ export const SpanRow: React.FC<SpanRowProps> = ({
         <div className={styles.details}>
           <div className={styles.serviceName}>
               {/* Success/failure indicator: green if successful, red if failed */}
-            <div
-              className={styles.statusDot}
-              style={{ background: hasError ? '#F2495C' : '#3ECF8E' }}
-              title={hasError ? 'Failed span' : 'Successful span'}
-            />
+            {span.isPlaceholder ? (
+              <div className={styles.statusDot} style={{ background: '#6B7280' }} title="Missing parent span" />
+            ) : (
+              <div
+                className={styles.statusDot}
+                style={{ background: hasError ? '#F2495C' : '#3ECF8E' }}
+                title={hasError ? `Failed span: ${failureReason}` : 'Successful span'}
+              />
+            )}
               {span.serviceName}
               {hasLogs && (
                 <>
@@ -274,26 +380,51 @@ export const SpanRow: React.FC<SpanRowProps> = ({
                   </div>
                 </>
               )}
+              {hasEvents && <span className={styles.eventCount}>{span.events.length} events</span>}
+              {span.references && span.references.length > 0 && (
+                <SpanLinksBadge
+                  references={span.references}
+                  currentTraceId={span.traceId}
+                  traceSpanIds={traceSpanIds ?? new Set()}
+                  onNavigateToSpan={onNavigateToSpan}
+                  onOpenTrace={onOpenTrace}
+                  canOpenTrace={canOpenTrace}
+                />
+              )}
             {colorizeByLogLevel && logSeverity !== 'none' && (
               <span 
                 className={styles.severityBadge} 
                 style={{ 
-                  background: `${spanColor}30`,
+                  background: colorManipulator.alpha(spanColor, 0.19),
                   color: spanColor,
-                  border: `1px solid ${spanColor}60`
+                  border: `1px solid ${colorManipulator.alpha(spanColor, 0.38)}`
                 }}
               >
                 {logSeverity.toUpperCase()}
               </span>
             )}
           </div>
-          <Tooltip content={span.operationName} placement="top">
-            <div className={styles.operationName}>{span.operationName}</div>
+          <Tooltip
+            content={onOpenDetails ? `${span.operationName} (click for details)` : span.operationName}
+            placement="top"
+          >
+            <div
+              className={cx(styles.operationName, onOpenDetails && styles.operationNameLink)}
+              onClick={
+                onOpenDetails &&
+                ((e) => {
+                  e.stopPropagation();
+                  onOpenDetails();
+                })
+              }
+            >
+              {span.operationName}
+            </div>
           </Tooltip>
         </div>
 
         {/* Timeline visualization */}
-        <div className={styles.timeline} style={{ width: timelineWidth }}>
+        <div className={styles.timeline} style={{ width: timelineWidth }} onWheel={onTimelineWheel}>
           <Tooltip
             content={
               <div>
@@ -310,10 +441,33 @@ export const SpanRow: React.FC<SpanRowProps> = ({
               style={{
                 left: `${offsetPercent}%`,
                 width: `${Math.max(widthPercent, 0.5)}%`,
-                background: `linear-gradient(135deg, ${spanColor} 0%, ${spanColor}CC 100%)`,
+                background: span.isPlaceholder
+                  ? 'transparent'
+                  : `linear-gradient(135deg, ${spanColor} 0%, ${colorManipulator.alpha(spanColor, 0.8)} 100%)`,
+                border: span.isPlaceholder ? `1px dashed ${spanColor}` : undefined,
               }}
             />
           </Tooltip>
+          {/* Critical path sections of the span */}
+          {criticalSegments?.map((segment, i) => (
+            <div
+              key={i}
+              className={styles.criticalSegment}
+              style={{
+                left: `${((segment.start - traceStart) / traceDuration) * 100}%`,
+                width: `${((segment.end - segment.start) / traceDuration) * 100}%`,
+              }}
+            />
+          ))}
+          {/* Span event markers */}
+          {span.events.map((event, i) => (
+            <Tooltip key={i} content={`${getSpanEventName(event)} @ ${formatDuration(event.timestamp - span.startTime)}`}>
+              <div
+                className={cx(styles.eventMarker, isExceptionEvent(event) && styles.eventMarkerException)}
+                style={{ left: `${((event.timestamp - traceStart) / traceDuration) * 100}%` }}
+              />
+            </Tooltip>
+          ))}
         </div>
 
         {/* Duration */}
@@ -321,7 +475,23 @@ export const SpanRow: React.FC<SpanRowProps> = ({
 
         {/* Tags */}
         <div className={styles.tags}>
-          {hasError && <span className={cx(styles.tag, styles.tagError)}>error</span>}
+          {span.skewAdjustment !== undefined && span.skewAdjustment !== 0 && (
+            <Tooltip
+              content={`Clock skew adjusted: shifted ${span.skewAdjustment > 0 ? 'later' : 'earlier'} by ${formatDuration(
+                Math.abs(span.skewAdjustment)
+              )} to fit inside its parent span`}
+            >
+              <span className={cx(styles.tag, styles.tagSkew)}>
+                <Icon name="clock-nine" size="xs" /> {span.skewAdjustment > 0 ? '+' : '-'}
+                {formatDuration(Math.abs(span.skewAdjustment))}
+              </span>
+            </Tooltip>
+          )}
+          {hasError && (
+            <Tooltip content={`Failed: ${failureReason}`}>
+              <span className={cx(styles.tag, styles.tagError)}>error</span>
+            </Tooltip>
+          )}
           {span.tags['http.method'] && <span className={styles.tag}>{String(span.tags['http.method'])}</span>}
           {span.tags['http.status_code'] && (
             <span className={cx(styles.tag, statusCode >= 400 && styles.tagError)}>
@@ -331,9 +501,9 @@ export const SpanRow: React.FC<SpanRowProps> = ({
         </div>
       </div>
 
-      {/* Expanded logs panel */}
-      {isExpanded && hasLogs && showRelatedLogs && (
-        <LogsPanel logs={span.logs} spanStartTime={span.startTime} />
+      {/* Expanded logs panel (span events are shown even when related logs are hidden) */}
+      {isExpanded && ((hasLogs && showRelatedLogs) || hasEvents) && (
+        <LogsPanel logs={showRelatedLogs ? span.logs : []} events={span.events} spanStartTime={span.startTime} />
       )}
     </div>
   );
@@ -0,0 +1,97 @@
+import { Icon, IconButton, InlineSwitch, Input, useStyles2 } from '@grafana/ui';
+import React from 'react';
+import { css } from '@emotion/css';
+
+import { GrafanaTheme2 } from '@grafana/data';
+
+interface SpanSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matchCount: number;
+  // Index of the match navigated to, -1 before any navigation
+  currentMatch: number;
+  onNext: () => void;
+  onPrevious: () => void;
+  showOnlyMatches: boolean;
+  onShowOnlyMatchesChange: (value: boolean) => void;
+}
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  bar: css`
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 8px 20px;
+    background: ${theme.colors.background.secondary};
+    border-bottom: 1px solid ${theme.colors.border.weak};
+  `,
+  input: css`
+    flex: 1;
+    max-width: 420px;
+  `,
+  count: css`
+    font-size: 12px;
+    color: ${theme.colors.text.secondary};
+    white-space: nowrap;
+  `,
+});
+
+/**
+ * Search box above the span list, with "n of m" navigation between matching spans (Enter / Shift+Enter)
+ */
+export const SpanSearchBar: React.FC<SpanSearchBarProps> = ({
+  query,
+  onQueryChange,
+  matchCount,
+  currentMatch,
+  onNext,
+  onPrevious,
+  showOnlyMatches,
+  onShowOnlyMatchesChange,
+}) => {
+  const styles = useStyles2(getStyles);
+  const hasQuery = query.trim() !== '';
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && matchCount > 0) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    }
+  };
+
+  return (
+    <div className={styles.bar}>
+      <div className={styles.input}>
+        <Input
+          value={query}
+          placeholder="Search spans: operation, service, span ID, tags, log text"
+          prefix={<Icon name="search" />}
+          suffix={
+            hasQuery && <IconButton name="times" size="sm" tooltip="Clear search" onClick={() => onQueryChange('')} />
+          }
+          onChange={(e) => onQueryChange(e.currentTarget.value)}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+      {hasQuery && (
+        <>
+          <span className={styles.count}>
+            {matchCount === 0 ? 'No matches' : `${currentMatch < 0 ? '–' : currentMatch + 1} of ${matchCount}`}
+          </span>
+          <IconButton name="arrow-up" tooltip="Previous match" disabled={matchCount === 0} onClick={onPrevious} />
+          <IconButton name="arrow-down" tooltip="Next match" disabled={matchCount === 0} onClick={onNext} />
+          <InlineSwitch
+            label="Only matches"
+            showLabel
+            value={showOnlyMatches}
+            onChange={(e) => onShowOnlyMatchesChange(e.currentTarget.checked)}
+          />
+        </>
+      )}
+    </div>
+  );
+};
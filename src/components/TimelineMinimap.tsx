@@ -0,0 +1,212 @@
+import { useStyles2 } from '@grafana/ui';
+import React, { useEffect, useRef, useState } from 'react';
+import { css } from '@emotion/css';
+
+import { GrafanaTheme2 } from '@grafana/data';
+import { ServiceColorScheme, Span, ViewRange } from '../types';
+import { getServiceColor } from '../utils/traceUtils';
+import {
+  clampViewRange,
+  FULL_VIEW_RANGE,
+  getWheelPanDelta,
+  panViewRange,
+  trackDrag,
+  zoomViewRange,
+} from '../utils/viewRange';
+
+interface TimelineMinimapProps {
+  spans: Array<Pick<Span, 'serviceName' | 'startTime' | 'duration'>>;
+  traceStart: number;
+  traceDuration: number;
+  width: number;
+  viewRange: ViewRange;
+  minViewWidth: number;
+  onChangeViewRange: (range: ViewRange) => void;
+  serviceColors?: ServiceColorScheme;
+}
+
+const MINIMAP_HEIGHT = 40;
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  minimap: css`
+    padding: 8px 20px;
+    background: ${theme.colors.background.canvas};
+    border-bottom: 1px solid ${theme.colors.border.weak};
+  `,
+  track: css`
+    position: relative;
+    height: ${MINIMAP_HEIGHT}px;
+    cursor: crosshair;
+    user-select: none;
+    background: ${theme.colors.background.primary};
+    border-radius: 4px;
+    overflow: hidden;
+  `,
+  canvas: css`
+    display: block;
+    width: 100%;
+    height: 100%;
+  `,
+  shade: css`
+    position: absolute;
+    top: 0;
+    bottom: 0;
+    background: ${theme.colors.background.canvas};
+    opacity: 0.7;
+    pointer-events: none;
+  `,
+  window: css`
+    position: absolute;
+    top: 0;
+    bottom: 0;
+    min-width: 2px;
+    border: 1px solid ${theme.colors.primary.main};
+    background: ${theme.colors.primary.transparent};
+    cursor: grab;
+  `,
+  handle: css`
+    position: absolute;
+    top: 0;
+    bottom: 0;
+    width: 6px;
+    cursor: ew-resize;
+    background: ${theme.colors.primary.main};
+    opacity: 0.6;
+  `,
+  selection: css`
+    position: absolute;
+    top: 0;
+    bottom: 0;
+    background: ${theme.colors.primary.transparent};
+    border-left: 1px dashed ${theme.colors.primary.main};
+    border-right: 1px dashed ${theme.colors.primary.main};
+    pointer-events: none;
+  `,
+});
+
+/**
+ * Overview of the whole trace (one line per span, in list order) with the visible part of the timeline as a
+ * window: drag the window to move it, its edges to resize it, or anywhere else to select a new range
+ */
+export const TimelineMinimap: React.FC<TimelineMinimapProps> = ({
+  spans,
+  traceStart,
+  traceDuration,
+  width,
+  viewRange,
+  minViewWidth,
+  onChangeViewRange,
+  serviceColors,
+}) => {
+  const styles = useStyles2(getStyles);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selection, setSelection] = useState<{ from: number; to: number }>();
+
+  // Drawn on a canvas: a DOM node per span would defeat the virtualized span list on large traces
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) {
+      return;
+    }
+    const ratio = window.devicePixelRatio || 1;
+    const canvasWidth = canvas.clientWidth * ratio;
+    const canvasHeight = MINIMAP_HEIGHT * ratio;
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
+    context.clearRect(0, 0, canvasWidth, canvasHeight);
+    if (spans.length === 0 || traceDuration <= 0) {
+      return;
+    }
+    const rowHeight = canvasHeight / spans.length;
+    const colors = new Map<string, string>();
+    spans.forEach((span, i) => {
+      if (!colors.has(span.serviceName)) {
+        colors.set(span.serviceName, getServiceColor(span.serviceName, serviceColors));
+      }
+      context.fillStyle = colors.get(span.serviceName)!;
+      context.fillRect(
+        ((span.startTime - traceStart) / traceDuration) * canvasWidth,
+        i * rowHeight,
+        Math.max(ratio, (span.duration / traceDuration) * canvasWidth),
+        Math.max(ratio, rowHeight)
+      );
+    });
+  }, [spans, traceStart, traceDuration, width, serviceColors]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const track = trackRef.current;
+    if (!track || e.button !== 0) {
+      return;
+    }
+    const initial = viewRange;
+    const initialWidth = initial.end - initial.start;
+    const target = (e.target as HTMLElement).dataset.drag;
+
+    if (target === 'start') {
+      trackDrag(e, track, (f) =>
+        onChangeViewRange({ start: Math.min(Math.max(0, f), initial.end - minViewWidth), end: initial.end })
+      );
+    } else if (target === 'end') {
+      trackDrag(e, track, (f) =>
+        onChangeViewRange({ start: initial.start, end: Math.max(Math.min(1, f), initial.start + minViewWidth) })
+      );
+    } else if (target === 'window') {
+      trackDrag(e, track, (f, f0) => onChangeViewRange(clampViewRange(initial.start + f - f0, initial.end + f - f0)));
+    } else {
+      trackDrag(
+        e,
+        track,
+        (f, f0) => setSelection({ from: f0, to: f }),
+        (f, f0) => {
+          setSelection(undefined);
+          // A click (no drag) centers the current window on the clicked point
+          onChangeViewRange(
+            Math.abs(f - f0) * track.clientWidth > 3
+              ? zoomViewRange(FULL_VIEW_RANGE, f0, f, minViewWidth)
+              : clampViewRange(f0 - initialWidth / 2, f0 + initialWidth / 2)
+          );
+        }
+      );
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const track = trackRef.current;
+    const delta = getWheelPanDelta(e);
+    if (!track || !delta) {
+      return;
+    }
+    onChangeViewRange(panViewRange(viewRange, delta / track.clientWidth));
+  };
+
+  const percent = (fraction: number) => `${Math.min(1, Math.max(0, fraction)) * 100}%`;
+
+  return (
+    <div className={styles.minimap}>
+      <div ref={trackRef} className={styles.track} onMouseDown={handleMouseDown} onWheel={handleWheel}>
+        <canvas ref={canvasRef} className={styles.canvas} />
+        <div className={styles.shade} style={{ left: 0, width: percent(viewRange.start) }} />
+        <div className={styles.shade} style={{ left: percent(viewRange.end), right: 0 }} />
+        <div
+          className={styles.window}
+          data-drag="window"
+          style={{ left: percent(viewRange.start), width: percent(viewRange.end - viewRange.start) }}
+        >
+          <div className={styles.handle} data-drag="start" style={{ left: 0 }} />
+          <div className={styles.handle} data-drag="end" style={{ right: 0 }} />
+        </div>
+        {selection && (
+          <div
+            className={styles.selection}
+            style={{
+              left: percent(Math.min(selection.from, selection.to)),
+              width: percent(Math.abs(selection.to - selection.from)),
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
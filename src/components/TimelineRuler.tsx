@@ -0,0 +1,158 @@
+import { Icon, IconButton, InlineSwitch, useStyles2 } from '@grafana/ui';
+import React, { useMemo, useRef, useState } from 'react';
+import { css } from '@emotion/css';
+
+import { GrafanaTheme2 } from '@grafana/data';
+import { ViewRange } from '../types';
+import { formatDuration } from '../utils/traceUtils';
+import {
+  FULL_VIEW_RANGE,
+  getViewMarkers,
+  getWheelPanDelta,
+  panViewRange,
+  trackDrag,
+  zoomViewRange,
+} from '../utils/viewRange';
+
+interface TimelineRulerProps {
+  traceDuration: number;
+  viewRange: ViewRange;
+  minViewWidth: number;
+  onChangeViewRange: (range: ViewRange) => void;
+  // Critical path dimming toggle, shown when defined
+  dimNonCritical?: boolean;
+  onDimNonCriticalChange?: (value: boolean) => void;
+}
+
+const MARKER_STEPS = 5;
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  timeline: css`
+    display: flex;
+    align-items: center;
+    padding: 8px 20px;
+    background: ${theme.colors.background.canvas};
+    border-bottom: 1px solid ${theme.colors.border.weak};
+    gap: 8px;
+    font-size: 11px;
+    color: ${theme.colors.text.secondary};
+  `,
+  timelineLegend: css`
+    position: relative;
+    flex: 1;
+    display: flex;
+    justify-content: space-between;
+    margin-left: 310px;
+    cursor: crosshair;
+    user-select: none;
+  `,
+  timeMarker: css`
+    font-family: 'JetBrains Mono', 'Fira Code', monospace;
+    color: ${theme.colors.text.disabled};
+  `,
+  selection: css`
+    position: absolute;
+    top: -8px;
+    bottom: -8px;
+    background: ${theme.colors.primary.transparent};
+    border-left: 1px dashed ${theme.colors.primary.main};
+    border-right: 1px dashed ${theme.colors.primary.main};
+    pointer-events: none;
+  `,
+});
+
+/**
+ * Timeline header with time markers for the visible range: drag across it to zoom in, scroll sideways (or Shift+scroll) over it to pan
+ */
+export const TimelineRuler: React.FC<TimelineRulerProps> = ({
+  traceDuration,
+  viewRange,
+  minViewWidth,
+  onChangeViewRange,
+  dimNonCritical,
+  onDimNonCriticalChange,
+}) => {
+  const styles = useStyles2(getStyles);
+  const legendRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<{ from: number; to: number }>();
+  const isZoomed = viewRange.start > 0 || viewRange.end < 1;
+
+  // Labels get as many decimals as needed to tell markers apart when zoomed in
+  const timeMarkers = useMemo(() => {
+    const resolution = ((viewRange.end - viewRange.start) * traceDuration) / MARKER_STEPS;
+    return getViewMarkers(traceDuration, viewRange, MARKER_STEPS).map((offset) => formatDuration(offset, resolution));
+  }, [traceDuration, viewRange]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const legend = legendRef.current;
+    if (!legend || e.button !== 0) {
+      return;
+    }
+    trackDrag(
+      e,
+      legend,
+      (f, f0) => setSelection({ from: f0, to: f }),
+      (f, f0) => {
+        setSelection(undefined);
+        if (Math.abs(f - f0) * legend.clientWidth > 3) {
+          onChangeViewRange(zoomViewRange(viewRange, f0, f, minViewWidth));
+        }
+      }
+    );
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const legend = legendRef.current;
+    const delta = getWheelPanDelta(e);
+    if (legend && delta && isZoomed) {
+      onChangeViewRange(panViewRange(viewRange, delta / legend.clientWidth));
+    }
+  };
+
+  const clamp = (fraction: number) => Math.min(1, Math.max(0, fraction));
+  const selectionLow = selection ? clamp(Math.min(selection.from, selection.to)) : 0;
+  const selectionHigh = selection ? clamp(Math.max(selection.from, selection.to)) : 0;
+
+  return (
+    <div className={styles.timeline}>
+      <Icon name="clock-nine" size="sm" />
+      <span>Timeline</span>
+      <div
+        ref={legendRef}
+        className={styles.timelineLegend}
+        title="Drag to zoom, scroll sideways or Shift+scroll to pan"
+        onMouseDown={handleMouseDown}
+        onWheel={handleWheel}
+      >
+        {timeMarkers.map((marker, i) => (
+          <span key={i} className={styles.timeMarker}>
+            {marker}
+          </span>
+        ))}
+        {selection && (
+          <div
+            className={styles.selection}
+            style={{ left: `${selectionLow * 100}%`, width: `${(selectionHigh - selectionLow) * 100}%` }}
+          />
+        )}
+      </div>
+      {isZoomed && (
+        <IconButton
+          name="search-minus"
+          size="sm"
+          tooltip="Reset zoom"
+          onClick={() => onChangeViewRange(FULL_VIEW_RANGE)}
+        />
+      )}
+      {dimNonCritical !== undefined && (
+        <InlineSwitch
+          label="Dim off critical path"
+          showLabel
+          transparent
+          value={dimNonCritical}
+          onChange={(e) => onDimNonCriticalChange?.(e.currentTarget.checked)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import { Combobox, ComboboxOption, Icon, useStyles2, useTheme2 } from '@grafana/ui';
+import React, { useMemo } from 'react';
+import { formatDuration, isSpanFailed } from '../utils/traceUtils';
+
+import { GrafanaTheme2 } from '@grafana/data';
+import { Trace } from '../types';
+import { ParsedSpanFailureRule } from '../utils/spanFailure';
+import { css } from '@emotion/css';
+
+interface TracePickerProps {
+  traces: Trace[];
+  selectedTraceId: string;
+  onChange: (traceId: string) => void;
+  failureRules?: ParsedSpanFailureRule[];
+}
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  container: css`
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    padding: 8px 12px;
+    background: ${theme.colors.background.secondary};
+    border-bottom: 1px solid ${theme.colors.border.weak};
+  `,
+  label: css`
+    display: flex;
+    align-items: center;
+    gap: 6px;
+    font-size: 12px;
+    color: ${theme.colors.text.secondary};
+    white-space: nowrap;
+  `,
+  select: css`
+    flex: 1;
+    min-width: 0;
+  `,
+});
+
+export const TracePicker: React.FC<TracePickerProps> = ({ traces, selectedTraceId, onChange, failureRules }) => {
+  useTheme2();
+  const styles = useStyles2(getStyles);
+
+  // One option per trace: trace ID as label, root operation / duration / error count as description
+  const options = useMemo(
+    (): Array<ComboboxOption<string>> =>
+      traces.map((trace) => {
+        const errorCount = trace.spans.filter((s) => isSpanFailed(s, failureRules)).length;
+        const summary = [trace.rootSpan?.operationName ?? 'unknown', formatDuration(trace.duration)];
+        if (errorCount > 0) {
+          summary.push(`${errorCount} ${errorCount === 1 ? 'error' : 'errors'}`);
+        }
+        return {
+          value: trace.traceId,
+          label: trace.traceId,
+          description: summary.join(' · '),
+        };
+      }),
+    [traces, failureRules]
+  );
+
+  return (
+    <div className={styles.container}>
+      <span className={styles.label}>
+        <Icon name="gf-traces" size="sm" />
+        {traces.length} traces
+      </span>
+      <div className={styles.select}>
+        <Combobox options={options} value={selectedTraceId} onChange={(option) => onChange(option.value)} />
+      </div>
+    </div>
+  );
+};
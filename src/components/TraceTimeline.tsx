@@ -1,10 +1,27 @@
-import { Icon, useStyles2, useTheme2 } from '@grafana/ui';
-import { LogLine, Trace } from '../types';
+import { Icon, IconButton, useStyles2, useTheme2 } from '@grafana/ui';
+import { LogLine, LogMatchStats, ServiceColorScheme, SpanTagFilter, Trace, ViewRange } from '../types';
 import React, { useMemo, useState } from 'react';
-import { formatDuration, getServiceColor, isSpanFailed, matchLogsToSpans } from '../utils/traceUtils';
+import {
+  findUnattributedLogs,
+  getLogMatchStats,
+  getServiceColor,
+  getSpanErrorReason,
+  matchLogsToSpans,
+} from '../utils/traceUtils';
 
 import { GrafanaTheme2 } from '@grafana/data';
+import { SpanDetailsDrawer } from './SpanDetailsDrawer';
 import { SpanRow } from './SpanRow';
+import { SpanSearchBar } from './SpanSearchBar';
+import { TimelineMinimap } from './TimelineMinimap';
+import { TimelineRuler } from './TimelineRuler';
+import { UnattributedLogs } from './UnattributedLogs';
+import { VirtualList, VirtualListHandle } from './VirtualList';
+import { ParsedSpanFailureRule } from '../utils/spanFailure';
+import { computeCriticalPath, groupCriticalPathBySpan } from '../utils/criticalPath';
+import { spanMatchesTagFilters } from '../utils/spanDetails';
+import { collectAncestorIds, findSearchMatches } from '../utils/spanSearch';
+import { FULL_VIEW_RANGE, getMinViewWidth, getWheelPanDelta, panViewRange } from '../utils/viewRange';
 import { css } from '@emotion/css';
 import { getTemplateSrv } from '@grafana/runtime';
 
@@ -24,10 +41,22 @@ interface TraceTimelineProps {
   minLogLevel?: 'all' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
   spanFilter?: 'all' | 'failed' | 'successful';
   showRelatedLogs?: boolean;
+  logMatchMode?: 'deepest' | 'overlapping';
+  hideTimeWindowLogs?: boolean;
+  showCriticalPath?: boolean;
+  failureRules?: ParsedSpanFailureRule[];
+  serviceColors?: ServiceColorScheme;
+  onMatchStats?: (stats: LogMatchStats) => void;
+  onOpenTrace?: (traceId: string) => void;
+  canOpenTrace?: (traceId: string) => boolean;
 }
 
+// Height of a collapsed span row, used for rows not measured yet
+const ESTIMATED_ROW_HEIGHT = 53;
+
 const getStyles = (theme: GrafanaTheme2) => ({
   container: css`
+    position: relative;
     display: flex;
     flex-direction: column;
     height: 100%;
@@ -76,26 +105,6 @@ const getStyles = (theme: GrafanaTheme2) => ({
     text-transform: uppercase;
     letter-spacing: 0.5px;
   `,
-  timeline: css`
-    display: flex;
-    align-items: center;
-    padding: 8px 20px;
-    background: ${theme.colors.background.canvas};
-    border-bottom: 1px solid ${theme.colors.border.weak};
-    gap: 8px;
-    font-size: 11px;
-    color: ${theme.colors.text.secondary};
-  `,
-  timelineLegend: css`
-    flex: 1;
-    display: flex;
-    justify-content: space-between;
-    margin-left: 310px;
-  `,
-  timeMarker: css`
-    font-family: 'JetBrains Mono', 'Fira Code', monospace;
-    color: ${theme.colors.text.disabled};
-  `,
   services: css`
     display: flex;
     gap: 12px;
@@ -146,6 +155,36 @@ const getStyles = (theme: GrafanaTheme2) => ({
       }
     }
   `,
+  tagFilters: css`
+    display: flex;
+    flex-wrap: wrap;
+    align-items: center;
+    gap: 6px;
+    padding: 6px 20px;
+    font-size: 12px;
+    color: ${theme.colors.text.secondary};
+    border-bottom: 1px solid ${theme.colors.border.weak};
+  `,
+  tagFilter: css`
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 1px 4px 1px 8px;
+    border-radius: 10px;
+    background: ${theme.colors.primary.transparent};
+    color: ${theme.colors.text.primary};
+    font-family: ${theme.typography.fontFamilyMonospace};
+  `,
+  warning: css`
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 6px 20px;
+    font-size: 12px;
+    background: ${theme.colors.warning.transparent};
+    color: ${theme.colors.warning.text};
+    border-bottom: 1px solid ${theme.colors.border.weak};
+  `,
   emptyState: css`
     display: flex;
     flex-direction: column;
@@ -187,25 +226,20 @@ export const TraceTimeline: React.FC<TraceTimelineProps> = ({
   minLogLevel = 'all',
   spanFilter = 'all',
   showRelatedLogs = true,
+  logMatchMode = 'overlapping',
+  hideTimeWindowLogs = false,
+  showCriticalPath = false,
+  failureRules,
+  serviceColors,
+  onMatchStats,
+  onOpenTrace,
+  canOpenTrace,
 }) => {
   useTheme2();
   const styles = useStyles2(getStyles);
 
-  // Debug: log trace duration raw and formatted
-  React.useEffect(() => {
-    try {
-      console.log('TraceTimeline: trace.duration raw =', trace.duration);
-      console.log('TraceTimeline: trace.duration formatted =', formatDuration(trace.duration));
-      if (trace.spans && trace.spans.length > 0) {
-        const sample = trace.spans.slice(0, 5).map((s) => ({ spanId: s.spanId, raw: s.duration, formatted: formatDuration(s.duration) }));
-        console.log('TraceTimeline: span duration samples =', sample);
-      }
-    } catch (e) {
-      // ignore
-    }
-  }, [trace]);
   // Process spans with logs
-  const rawSpansWithLogs = useMemo(() => matchLogsToSpans(trace, logs), [trace, logs]);
+  const rawSpansWithLogs = useMemo(() => matchLogsToSpans(trace, logs, logMatchMode), [trace, logs, logMatchMode]);
 
   // Helper to rank log levels
   const levelRank = (level?: LogLine['level'] | string): number => {
@@ -283,28 +317,49 @@ export const TraceTimeline: React.FC<TraceTimelineProps> = ({
     }
   })();
 
-  // Use centralized helper to determine if a span is failed; also consider error logs
-  const spanHasError = (span: typeof rawSpansWithLogs[0]) => {
-    const tagBased = isSpanFailed(span as any);
-    const hasErrorLog = span.logs && span.logs.some((l) => (l.level || '').toString().toLowerCase() === 'error');
-    return tagBased || hasErrorLog;
-  };
+  // Logs kept after the min log level filter and, when enabled, dropping time-window guesses
+  const filterLogs = (spanLogs: LogLine[]) =>
+    spanLogs.filter(
+      (l) => (minRank < 0 || levelRank(l.level) >= minRank) && !(hideTimeWindowLogs && l.matchMethod === 'timeWindow')
+    );
 
-  // Apply min log level filtering and span success filter
+  // Use centralized helper to determine if a span is failed (status, failure rules or error logs)
+  const spanHasError = (span: typeof rawSpansWithLogs[0]) => getSpanErrorReason(span, failureRules) !== undefined;
+
+  // Tag values picked with "Filter by this value" in the span details
+  const [tagFilters, setTagFilters] = useState<SpanTagFilter[]>([]);
+
+  // Apply min log level filtering, span success filter and tag filters
   const spansWithLogs = useMemo(() => {
-    const filtered = rawSpansWithLogs.map((s) => {
-      const logsFiltered = minRank >= 0 ? s.logs.filter((l) => levelRank(l.level) >= minRank) : s.logs.slice();
-      return {
-        ...s,
-        logs: logsFiltered,
-      };
-    });
+    const filtered = rawSpansWithLogs
+      .filter((s) => tagFilters.length === 0 || spanMatchesTagFilters(s, tagFilters))
+      .map((s) => {
+        const logsFiltered = filterLogs(s.logs);
+        return {
+          ...s,
+          logs: logsFiltered,
+        };
+      });
 
     if (!resolvedSpanFilter || resolvedSpanFilter === 'all') return filtered;
     if (resolvedSpanFilter === 'failed') return filtered.filter((s) => spanHasError(s));
     if (resolvedSpanFilter === 'successful') return filtered.filter((s) => !spanHasError(s));
     return filtered;
-  }, [rawSpansWithLogs, resolvedMinLogLevel, resolvedSpanFilter, templateVarsKey, trace.rootSpan?.spanId]);
+  }, [
+    rawSpansWithLogs,
+    resolvedMinLogLevel,
+    resolvedSpanFilter,
+    templateVarsKey,
+    trace.rootSpan?.spanId,
+    hideTimeWindowLogs,
+    failureRules,
+    tagFilters,
+  ]);
+
+  // A tag filter replaces an earlier one on the same key
+  const addTagFilter = (key: string, value: string) =>
+    setTagFilters((prev) => [...prev.filter((f) => f.key !== key), { key, value }]);
+  const removeTagFilter = (key: string) => setTagFilters((prev) => prev.filter((f) => f.key !== key));
 
   // Ensure the root span is always present in the spans list even if filters removed it
   const spansWithLogsEnsuringRoot = useMemo(() => {
@@ -317,10 +372,18 @@ export const TraceTimeline: React.FC<TraceTimelineProps> = ({
     const rawRoot = rawSpansWithLogs.find((s) => s.spanId === rootId);
     if (!rawRoot) return spansWithLogs;
 
-    const logsFiltered = minRank >= 0 ? rawRoot.logs.filter((l) => levelRank(l.level) >= minRank) : rawRoot.logs.slice();
+    const logsFiltered = filterLogs(rawRoot.logs);
     const rootWithLogs = { ...rawRoot, logs: logsFiltered };
     return [rootWithLogs, ...spansWithLogs];
-  }, [spansWithLogs, rawSpansWithLogs, trace.rootSpan?.spanId, resolvedMinLogLevel, resolvedSpanFilter, templateVarsKey]);
+  }, [
+    spansWithLogs,
+    rawSpansWithLogs,
+    trace.rootSpan?.spanId,
+    resolvedMinLogLevel,
+    resolvedSpanFilter,
+    templateVarsKey,
+    hideTimeWindowLogs,
+  ]);
 
   // Ensure root is present in the canonical spans list
   const finalSpans = spansWithLogsEnsuringRoot;
@@ -342,23 +405,26 @@ export const TraceTimeline: React.FC<TraceTimelineProps> = ({
   // Initialize expanded state when a new trace loads, but preserve user toggles across data refreshes
   const prevTraceIdRef = React.useRef<string | undefined>(undefined);
   React.useEffect(() => {
-    const rootId = trace.rootSpan?.spanId;
+    // All top-level spans start expanded, including placeholders for missing parents
+    const rootIds = trace.rootSpans.map((s) => s.spanId);
     if (prevTraceIdRef.current === trace.traceId) {
       return; // same trace ID — preserve current expanded state
     }
     prevTraceIdRef.current = trace.traceId;
 
     if (collapsedByDefault) {
-      const init = new Set<string>();
-      if (rootId) init.add(rootId);
+      const init = new Set<string>(rootIds);
       setExpandedSpans(init);
     } else {
-      // If not collapsed by default, expand spans that have logs (and ensure root is expanded)
+      // If not collapsed by default, expand spans that have logs (and ensure roots are expanded)
       const init = new Set(finalSpans.filter((s) => s.logs.length > 0).map((s) => s.spanId));
-      if (rootId) init.add(rootId);
+      rootIds.forEach((id) => init.add(id));
       setExpandedSpans(init);
     }
-  }, [trace.traceId, collapsedByDefault, finalSpans, trace.rootSpan?.spanId]);
+  }, [trace.traceId, collapsedByDefault, finalSpans, trace.rootSpans]);
+
+  // Build a map of spans for ancestor and descendant lookups
+  const spanMap = useMemo(() => new Map(finalSpans.map((s) => [s.spanId, s])), [finalSpans]);
 
   // Helper to collect all descendant spanIds for a given span
   const collectDescendantIds = (spanId: string, map: Map<string, typeof finalSpans[0]>, out: Set<string>) => {
@@ -378,7 +444,6 @@ export const TraceTimeline: React.FC<TraceTimelineProps> = ({
       if (next.has(spanId)) {
         // collapsing: also remove all descendants so they stay collapsed when hidden
         next.delete(spanId);
-        const spanMap = new Map(finalSpans.map((s) => [s.spanId, s]));
         const toRemove = new Set<string>();
         collectDescendantIds(spanId, spanMap, toRemove);
         toRemove.forEach((id) => next.delete(id));
@@ -401,93 +466,295 @@ export const TraceTimeline: React.FC<TraceTimelineProps> = ({
   // Calculate timeline width based on panel width
   const timelineWidth = Math.max(200, width - 500);
 
-  // Build a map of spans for ancestor checks
-  const spanMap = useMemo(() => new Map(finalSpans.map((s) => [s.spanId, s])), [finalSpans]);
+  // Span search: matches are highlighted and their ancestors expanded
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showOnlyMatches, setShowOnlyMatches] = useState(false);
+  const [currentMatch, setCurrentMatch] = useState(-1);
+  const searchMatches = useMemo(() => findSearchMatches(finalSpans, searchQuery), [finalSpans, searchQuery]);
+  const searchMatchIds = useMemo(() => new Set(searchMatches), [searchMatches]);
+  const searchAncestorIds = useMemo(() => collectAncestorIds(searchMatches, spanMap), [searchMatches, spanMap]);
+
+  // Expand ancestors when the matches change (adjusted while rendering, like a derived state). Keyed on the query
+  // and matched IDs rather than the array, so a data refresh with the same matches keeps the position and expansion
+  const searchKey = `${searchQuery}\n${searchMatches.join(',')}`;
+  const [expandedForSearch, setExpandedForSearch] = useState(searchKey);
+  if (expandedForSearch !== searchKey) {
+    setExpandedForSearch(searchKey);
+    setCurrentMatch(-1);
+    if (searchAncestorIds.size > 0) {
+      setExpandedSpans((prev) => {
+        const next = new Set(prev);
+        searchAncestorIds.forEach((id) => next.add(id));
+        return next;
+      });
+    }
+  }
 
   // Determine which spans should be visible based on expanded parents
   const visibleSpans = useMemo(() => {
     const visible: typeof finalSpans = [];
+    // Memoized per span so large traces stay linear
+    const visibility = new Map<string, boolean>();
 
     const isSpanVisible = (span: typeof finalSpans[0]): boolean => {
-      if (!span.parentSpanId) return true; // root-level spans always visible
-      const parent = spanMap.get(span.parentSpanId);
-      if (!parent) return true;
-      // parent must be visible and expanded
-      if (!isSpanVisible(parent)) return false;
-      return expandedSpans.has(parent.spanId);
+      const known = visibility.get(span.spanId);
+      if (known !== undefined) {
+        return known;
+      }
+      visibility.set(span.spanId, true); // guards against parent cycles
+      const parent = span.parentSpanId ? spanMap.get(span.parentSpanId) : undefined;
+      // root-level spans always visible, others need a visible and expanded parent
+      const result = !parent || (expandedSpans.has(parent.spanId) && isSpanVisible(parent));
+      visibility.set(span.spanId, result);
+      return result;
     };
 
+    // "Only matches" keeps the matching spans and their ancestors
+    const onlyMatches = showOnlyMatches && searchQuery.trim() !== '';
     for (const s of finalSpans) {
-      if (isSpanVisible(s)) visible.push(s);
+      const kept = !onlyMatches || searchMatchIds.has(s.spanId) || searchAncestorIds.has(s.spanId);
+      if (kept && isSpanVisible(s)) {
+        visible.push(s);
+      }
     }
     return visible;
-  }, [finalSpans, spanMap, expandedSpans]);
-
-  // Calculate time markers
-  const timeMarkers = useMemo(() => {
-    const markers = [];
-    const steps = 5;
-    for (let i = 0; i <= steps; i++) {
-      const time = (trace.duration / steps) * i;
-      markers.push(formatDuration(time));
+  }, [finalSpans, spanMap, expandedSpans, showOnlyMatches, searchQuery, searchMatchIds, searchAncestorIds]);
+
+  // Span IDs of the whole trace, used to tell in-trace span links from external ones
+  const traceSpanIds = useMemo(() => new Set(trace.spans.map((s) => s.spanId)), [trace.spans]);
+
+  const visibleSpanIds = useMemo(() => visibleSpans.map((s) => s.spanId), [visibleSpans]);
+
+  // Scroll to a linked span and highlight it briefly
+  const spanListRef = React.useRef<VirtualListHandle>(null);
+  const [highlightedSpanId, setHighlightedSpanId] = useState<string | null>(null);
+  const [scrollRequest, setScrollRequest] = useState<{ spanId: string } | null>(null);
+  const handledScrollRequestRef = React.useRef<{ spanId: string } | null>(null);
+
+  const navigateToSpan = (spanId: string) => {
+    // Expand every ancestor so the target row is rendered
+    setExpandedSpans((prev) => {
+      const next = new Set(prev);
+      const visited = new Set<string>();
+      let parentId = spanMap.get(spanId)?.parentSpanId;
+      while (parentId && spanMap.has(parentId) && !visited.has(parentId)) {
+        visited.add(parentId);
+        next.add(parentId);
+        parentId = spanMap.get(parentId)?.parentSpanId;
+      }
+      return next;
+    });
+    setHighlightedSpanId(spanId);
+    setScrollRequest({ spanId });
+  };
+
+  const goToMatch = (index: number) => {
+    const count = searchMatches.length;
+    if (count === 0) {
+      return;
+    }
+    const wrapped = (index + count) % count;
+    setCurrentMatch(wrapped);
+    navigateToSpan(searchMatches[wrapped]);
+  };
+
+  React.useEffect(() => {
+    if (!highlightedSpanId) {
+      return;
     }
-    return markers;
-  }, [trace.duration]);
+    const id = window.setTimeout(() => setHighlightedSpanId(null), 2000);
+    return () => window.clearTimeout(id);
+  }, [highlightedSpanId]);
+
+  // Scroll once per navigation, as soon as the expanded ancestors put the row in the list. The row may not be
+  // rendered yet: scroll by its offset in the virtualized list
+  React.useEffect(() => {
+    if (!scrollRequest || handledScrollRequestRef.current === scrollRequest) {
+      return;
+    }
+    const index = visibleSpanIds.indexOf(scrollRequest.spanId);
+    if (index < 0) {
+      return;
+    }
+    handledScrollRequestRef.current = scrollRequest;
+    spanListRef.current?.scrollToIndex(index, 'center');
+  }, [scrollRequest, visibleSpanIds]);
+
+  // Critical path segments by span, and the runtime toggle dimming spans off the path
+  const criticalPath = useMemo(
+    () => (showCriticalPath ? groupCriticalPathBySpan(computeCriticalPath(trace)) : undefined),
+    [showCriticalPath, trace]
+  );
+  const [dimNonCritical, setDimNonCritical] = useState(false);
+
+  // Span shown in the details drawer (looked up before filters, so filtering from the drawer keeps it open)
+  const [detailSpanId, setDetailSpanId] = useState<string | null>(null);
+  const detailSpan = useMemo(
+    () => (detailSpanId ? rawSpansWithLogs.find((s) => s.spanId === detailSpanId) : undefined),
+    [rawSpansWithLogs, detailSpanId]
+  );
+
+  // Zoomed part of the timeline, reset for each new trace; bars and markers are placed relative to it
+  const [zoom, setZoom] = useState<{ traceId: string; range: ViewRange }>({
+    traceId: trace.traceId,
+    range: FULL_VIEW_RANGE,
+  });
+  const viewRange = zoom.traceId === trace.traceId ? zoom.range : FULL_VIEW_RANGE;
+  const setViewRange = (range: ViewRange) => setZoom({ traceId: trace.traceId, range });
+  const minViewWidth = getMinViewWidth(trace.duration);
+  const viewStart = trace.startTime + viewRange.start * trace.duration;
+  const viewDuration = (viewRange.end - viewRange.start) * trace.duration;
+
+  // Horizontal (or shift) wheel over the span bars pans the zoomed timeline; vertical wheel keeps scrolling. Only
+  // the bar area listens, so scrolling logs, the footer or the details drawer sideways leaves the view alone
+  const handleTimelineWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const delta = getWheelPanDelta(e);
+    if (delta) {
+      setViewRange(panViewRange(viewRange, delta / timelineWidth));
+    }
+  };
 
   // Count logs per span
   const totalLogs = logs.length;
 
+  // Trace logs no span claims (async callbacks, late retries), with the same level filter as span logs
+  const allUnattributedLogs = useMemo(() => findUnattributedLogs(trace, logs), [trace, logs]);
+  const unattributedLogs = allUnattributedLogs.filter((entry) => minRank < 0 || levelRank(entry.log.level) >= minRank);
+
+  // Report match statistics (before any filtering) for the Diagnostics overlay
+  React.useEffect(() => {
+    onMatchStats?.(getLogMatchStats(rawSpansWithLogs, allUnattributedLogs.length));
+  }, [rawSpansWithLogs, allUnattributedLogs, onMatchStats]);
+
   return (
     <div className={styles.container} style={{ width, height }}>
+      {/* Span search */}
+      <SpanSearchBar
+        query={searchQuery}
+        onQueryChange={setSearchQuery}
+        matchCount={searchMatches.length}
+        currentMatch={currentMatch}
+        onNext={() => goToMatch(currentMatch + 1)}
+        onPrevious={() => goToMatch(currentMatch < 0 ? -1 : currentMatch - 1)}
+        showOnlyMatches={showOnlyMatches}
+        onShowOnlyMatchesChange={setShowOnlyMatches}
+      />
+
+      {/* Tag filters from the span details */}
+      {tagFilters.length > 0 && (
+        <div className={styles.tagFilters}>
+          <Icon name="filter" size="sm" />
+          {tagFilters.map(({ key, value }) => (
+            <span key={key} className={styles.tagFilter}>
+              {key} = {value}
+              <IconButton name="times" size="xs" tooltip="Remove filter" onClick={() => removeTagFilter(key)} />
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Orphaned spans warning */}
+      {trace.orphanCount > 0 && (
+        <div className={styles.warning}>
+          <Icon name="exclamation-triangle" size="sm" />
+          <span>
+            {trace.orphanCount} {trace.orphanCount === 1 ? 'span is' : 'spans are'} orphaned: their parent is missing
+            from the trace data
+          </span>
+        </div>
+      )}
 
       {/* Services legend */}
       {showServiceColors && (
         <div className={styles.services}>
           {trace.services.map((service) => (
             <div key={service} className={styles.serviceItem}>
-              <div className={styles.serviceColor} style={{ background: getServiceColor(service) }} />
+              <div className={styles.serviceColor} style={{ background: getServiceColor(service, serviceColors) }} />
               <span>{service}</span>
             </div>
           ))}
         </div>
       )}
 
+      {/* Whole-trace overview with the zoomed window */}
+      <TimelineMinimap
+        spans={finalSpans}
+        traceStart={trace.startTime}
+        traceDuration={trace.duration}
+        width={width}
+        viewRange={viewRange}
+        minViewWidth={minViewWidth}
+        onChangeViewRange={setViewRange}
+        serviceColors={serviceColors}
+      />
+
       {/* Timeline header */}
-      <div className={styles.timeline}>
-        <Icon name="clock-nine" size="sm" />
-        <span>Timeline</span>
-        <div className={styles.timelineLegend}>
-          {timeMarkers.map((marker, i) => (
-            <span key={i} className={styles.timeMarker}>
-              {marker}
-            </span>
-          ))}
-        </div>
-      </div>
-
-      {/* Spans list */}
-      <div className={styles.spansContainer}>
-        {visibleSpans.map((span) => (
-          <SpanRow
-            key={span.spanId}
-            span={span}
-            traceStart={trace.startTime}
-            traceDuration={trace.duration}
-            isExpanded={expandedSpans.has(span.spanId)}
-            onToggle={() => toggleSpan(span.spanId)}
-            timelineWidth={timelineWidth}
-            showServiceColors={showServiceColors}
-            showDuration={showDuration}
-            colorizeByLogLevel={colorizeByLogLevel}
-            errorColor={errorColor}
-            warningColor={warningColor}
-            infoColor={infoColor}
-            debugColor={debugColor}
-            showRelatedLogs={showLogsBySpan.has(span.spanId)}
-            onToggleRelatedLogs={() => toggleLogsForSpan(span.spanId)}
-          />
-        ))}
-      </div>
+      <TimelineRuler
+        traceDuration={trace.duration}
+        viewRange={viewRange}
+        minViewWidth={minViewWidth}
+        onChangeViewRange={setViewRange}
+        dimNonCritical={criticalPath ? dimNonCritical : undefined}
+        onDimNonCriticalChange={setDimNonCritical}
+      />
+
+      {/* Spans list, windowed so traces with thousands of spans only render the rows in view */}
+      <VirtualList
+        ref={spanListRef}
+        className={styles.spansContainer}
+        itemKeys={visibleSpanIds}
+        estimatedItemHeight={ESTIMATED_ROW_HEIGHT}
+        renderItem={(index) => {
+          const span = visibleSpans[index];
+          return (
+            <SpanRow
+              span={span}
+              traceStart={viewStart}
+              traceDuration={viewDuration}
+              isExpanded={expandedSpans.has(span.spanId)}
+              onToggle={() => toggleSpan(span.spanId)}
+              timelineWidth={timelineWidth}
+              showServiceColors={showServiceColors}
+              showDuration={showDuration}
+              colorizeByLogLevel={colorizeByLogLevel}
+              errorColor={errorColor}
+              warningColor={warningColor}
+              infoColor={infoColor}
+              debugColor={debugColor}
+              failureRules={failureRules}
+              serviceColors={serviceColors}
+              showRelatedLogs={showLogsBySpan.has(span.spanId)}
+              onToggleRelatedLogs={() => toggleLogsForSpan(span.spanId)}
+              isHighlighted={highlightedSpanId === span.spanId || searchMatches[currentMatch] === span.spanId}
+              isSearchMatch={searchMatchIds.has(span.spanId)}
+              onOpenDetails={() => setDetailSpanId(span.spanId)}
+              criticalSegments={criticalPath?.get(span.spanId)}
+              isDimmed={Boolean(criticalPath && dimNonCritical && !criticalPath.has(span.spanId))}
+              onTimelineWheel={handleTimelineWheel}
+              traceSpanIds={traceSpanIds}
+              onNavigateToSpan={navigateToSpan}
+              onOpenTrace={onOpenTrace}
+              canOpenTrace={canOpenTrace}
+            />
+          );
+        }}
+        footer={<UnattributedLogs entries={unattributedLogs} onNavigateToSpan={navigateToSpan} />}
+      />
+
+      {/* Details of the span whose name was clicked */}
+      {detailSpan && (
+        <SpanDetailsDrawer
+          span={detailSpan}
+          traceStart={trace.startTime}
+          failureRules={failureRules}
+          onClose={() => setDetailSpanId(null)}
+          onFilterByTag={addTagFilter}
+          onNavigateToSpan={(spanId) => {
+            setDetailSpanId(spanId);
+            navigateToSpan(spanId);
+          }}
+        />
+      )}
     </div>
   );
 };
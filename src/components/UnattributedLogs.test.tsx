@@ -0,0 +1,25 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import React from 'react';
+import { UnattributedLogs } from './UnattributedLogs';
+
+const entries = Array.from({ length: 250 }, (_, i) => ({
+  log: { timestamp: BigInt(i) * BigInt(1000), line: `log ${i}`, labels: {} },
+  offset: i,
+}));
+
+describe('UnattributedLogs', () => {
+  it('renders the logs a page at a time', () => {
+    render(<UnattributedLogs entries={entries} />);
+
+    expect(screen.getByText('Unattributed logs (250)')).toBeInTheDocument();
+    expect(screen.getByText('log 99')).toBeInTheDocument();
+    expect(screen.queryByText('log 100')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Show 100 more of 150'));
+    expect(screen.getByText('log 199')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Show 50 more of 50'));
+    expect(screen.getByText('log 249')).toBeInTheDocument();
+    expect(screen.queryByText(/more of/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,131 @@
+import { Button, Icon, useStyles2 } from '@grafana/ui';
+import React, { useState } from 'react';
+import { css, cx } from '@emotion/css';
+
+import { GrafanaTheme2 } from '@grafana/data';
+import { LogLine, Span } from '../types';
+
+// Logs rendered per page: the list sits in the virtualized span list's footer, so it is not windowed itself
+const PAGE_SIZE = 100;
+
+interface UnattributedLogsProps {
+  entries: Array<{ log: LogLine; offset: number; nearestSpan?: Span }>;
+  onNavigateToSpan?: (spanId: string) => void;
+}
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  container: css`
+    border-top: 1px solid ${theme.colors.border.medium};
+  `,
+  header: css`
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    width: 100%;
+    padding: 8px 20px;
+    border: none;
+    background: ${theme.colors.background.secondary};
+    font-size: 12px;
+    font-weight: 600;
+    color: ${theme.colors.text.secondary};
+    text-transform: uppercase;
+    letter-spacing: 0.5px;
+    cursor: pointer;
+  `,
+  logLine: css`
+    display: flex;
+    align-items: flex-start;
+    gap: 12px;
+    padding: 4px 20px;
+    font-family: 'JetBrains Mono', 'Fira Code', 'Consolas', monospace;
+    font-size: 12px;
+    line-height: 1.5;
+    border-bottom: 1px solid ${theme.colors.border.weak};
+
+    &:hover {
+      background: ${theme.colors.background.secondary};
+    }
+  `,
+  offset: css`
+    color: ${theme.colors.text.disabled};
+    flex-shrink: 0;
+    min-width: 90px;
+    font-size: 11px;
+  `,
+  nearest: css`
+    flex-shrink: 0;
+    max-width: 220px;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+    font-size: 11px;
+    color: ${theme.colors.text.link};
+    background: none;
+    border: none;
+    padding: 0;
+    cursor: pointer;
+  `,
+  message: css`
+    flex: 1;
+    color: ${theme.colors.text.primary};
+    word-break: break-word;
+    white-space: pre-wrap;
+  `,
+  messageError: css`
+    color: ${theme.colors.error.text};
+  `,
+  more: css`
+    padding: 4px 20px;
+  `,
+});
+
+/**
+ * Format an offset from trace start (µs) as signed milliseconds
+ */
+const formatOffset = (offset: number): string => `${offset < 0 ? '-' : '+'}${Math.abs(offset / 1000).toFixed(2)}ms`;
+
+/**
+ * Trace logs that match no span (unknown span ID, outside every span window), listed chronologically under the spans
+ */
+export const UnattributedLogs: React.FC<UnattributedLogsProps> = ({ entries, onNavigateToSpan }) => {
+  const styles = useStyles2(getStyles);
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [shownCount, setShownCount] = useState(PAGE_SIZE);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.container}>
+      <button className={styles.header} onClick={() => setIsExpanded(!isExpanded)}>
+        <Icon name={isExpanded ? 'angle-down' : 'angle-right'} size="sm" />
+        <Icon name="question-circle" size="sm" />
+        Unattributed logs ({entries.length})
+      </button>
+      {isExpanded &&
+        entries.slice(0, shownCount).map(({ log, offset, nearestSpan }, index) => (
+          <div key={index} className={styles.logLine}>
+            <span className={styles.offset}>{formatOffset(offset)}</span>
+            {nearestSpan && (
+              <button
+                className={styles.nearest}
+                title={`Nearest span: ${nearestSpan.serviceName} ${nearestSpan.operationName}`}
+                onClick={() => onNavigateToSpan?.(nearestSpan.spanId)}
+              >
+                near {nearestSpan.operationName}
+              </button>
+            )}
+            <span className={cx(styles.message, log.level === 'error' && styles.messageError)}>{log.line}</span>
+          </div>
+        ))}
+      {isExpanded && entries.length > shownCount && (
+        <div className={styles.more}>
+          <Button size="sm" variant="secondary" fill="text" onClick={() => setShownCount(shownCount + PAGE_SIZE)}>
+            Show {Math.min(PAGE_SIZE, entries.length - shownCount)} more of {entries.length - shownCount}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
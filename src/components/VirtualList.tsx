@@ -0,0 +1,178 @@
+import React, { useCallback, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { computeItemOffsets, getVisibleRange, VirtualRange } from '../utils/virtualList';
+
+import { css } from '@emotion/css';
+import { useStyles2 } from '@grafana/ui';
+
+export interface VirtualListHandle {
+  // Scroll so the item at `index` is at the top (or center) of the viewport, even when it is not rendered
+  scrollToIndex: (index: number, align?: 'start' | 'center') => void;
+}
+
+interface VirtualListProps {
+  // Stable key per item, used to remember measured heights across filtering and expand/collapse
+  itemKeys: string[];
+  estimatedItemHeight: number;
+  renderItem: (index: number) => React.ReactNode;
+  className?: string;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+  // Content rendered after the last item
+  footer?: React.ReactNode;
+}
+
+const getStyles = () => ({
+  // flow-root keeps the row margins inside the measured box
+  item: css`
+    display: flow-root;
+  `,
+});
+
+/**
+ * Scroll container rendering only the items around the viewport. Items may have any height: rendered items are
+ * measured with a ResizeObserver (expanding a row's logs updates the layout) and the scroll position is kept when
+ * items above the viewport change height.
+ */
+export const VirtualList = React.forwardRef<VirtualListHandle, VirtualListProps>(
+  ({ itemKeys, estimatedItemHeight, renderItem, className, overscan = 400, footer }, ref) => {
+    const styles = useStyles2(getStyles);
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Measured heights by item key; replaced (never mutated) on every measurement
+    const [heights, setHeights] = useState(() => new Map<string, number>());
+    const heightsRef = useRef(heights);
+    heightsRef.current = heights;
+    const [range, setRange] = useState<VirtualRange>({ start: 0, end: 0 });
+
+    const offsets = useMemo(
+      () => computeItemOffsets(itemKeys, heights, estimatedItemHeight),
+      [itemKeys, heights, estimatedItemHeight]
+    );
+    const offsetsRef = useRef(offsets);
+    offsetsRef.current = offsets;
+
+    const updateRange = useCallback(() => {
+      const container = containerRef.current;
+      if (!container) {
+        return;
+      }
+      const next = getVisibleRange(offsetsRef.current, container.scrollTop, container.clientHeight, overscan);
+      setRange((prev) => (prev.start === next.start && prev.end === next.end ? prev : next));
+    }, [overscan]);
+
+    // Recompute the rendered range before paint whenever the layout changes
+    useLayoutEffect(updateRange, [offsets, updateRange]);
+
+    // One observer for the container (viewport resizes) and the rendered items (height changes)
+    const observerRef = useRef<ResizeObserver>();
+    const observedRef = useRef(new Set<Element>());
+    useLayoutEffect(() => {
+      const container = containerRef.current;
+      if (!container || typeof ResizeObserver === 'undefined') {
+        return;
+      }
+      const observer = new ResizeObserver((entries) => {
+        let next: Map<string, number> | undefined;
+        let scrollDelta = 0;
+        for (const entry of entries) {
+          const element = entry.target as HTMLElement;
+          const key = element.dataset.virtualKey;
+          if (key === undefined) {
+            continue;
+          }
+          const height = element.offsetHeight;
+          const known = next ?? heightsRef.current;
+          const previous = known.get(key) ?? estimatedItemHeight;
+          if (height === previous && known.has(key)) {
+            continue;
+          }
+          next = next ?? new Map(heightsRef.current);
+          next.set(key, height);
+          // Items starting above the viewport push the visible ones down: compensate to keep them in place
+          if (offsetsRef.current[Number(element.dataset.virtualIndex)] < container.scrollTop) {
+            scrollDelta += height - previous;
+          }
+        }
+        if (scrollDelta !== 0) {
+          container.scrollTop += scrollDelta;
+        }
+        if (next) {
+          // Later callbacks before the next render build on these measurements
+          heightsRef.current = next;
+          setHeights(next);
+        } else {
+          updateRange();
+        }
+      });
+      observer.observe(container);
+      observerRef.current = observer;
+      const observed = observedRef.current;
+      return () => {
+        observer.disconnect();
+        observed.clear();
+        observerRef.current = undefined;
+      };
+    }, [estimatedItemHeight, updateRange]);
+
+    // Observe newly rendered items and drop the ones scrolled out
+    useLayoutEffect(() => {
+      const observer = observerRef.current;
+      const container = containerRef.current;
+      if (!observer || !container) {
+        return;
+      }
+      const rendered = new Set<Element>(Array.from(container.querySelectorAll('[data-virtual-key]')));
+      observedRef.current.forEach((element) => {
+        if (!rendered.has(element)) {
+          observer.unobserve(element);
+          observedRef.current.delete(element);
+        }
+      });
+      rendered.forEach((element) => {
+        if (!observedRef.current.has(element)) {
+          observer.observe(element);
+          observedRef.current.add(element);
+        }
+      });
+    });
+
+    useImperativeHandle(
+      ref,
+      () => ({
+        scrollToIndex: (index, align = 'start') => {
+          const container = containerRef.current;
+          const current = offsetsRef.current;
+          if (!container || index < 0 || index >= current.length - 1) {
+            return;
+          }
+          const itemHeight = current[index + 1] - current[index];
+          const top = align === 'center' ? current[index] - (container.clientHeight - itemHeight) / 2 : current[index];
+          container.scrollTo({ top: Math.max(0, top), behavior: 'smooth' });
+        },
+      }),
+      []
+    );
+
+    const count = itemKeys.length;
+    const start = Math.min(range.start, count);
+    const end = Math.min(range.end, count);
+    const items: React.ReactNode[] = [];
+    for (let i = start; i < end; i++) {
+      items.push(
+        <div key={itemKeys[i]} className={styles.item} data-virtual-key={itemKeys[i]} data-virtual-index={i}>
+          {renderItem(i)}
+        </div>
+      );
+    }
+
+    return (
+      <div className={className} ref={containerRef} onScroll={updateRange} style={{ overflowAnchor: 'none' }}>
+        <div style={{ height: offsets[start] }} />
+        {items}
+        <div style={{ height: offsets[count] - offsets[end] }} />
+        {footer}
+      </div>
+    );
+  }
+);
+
+VirtualList.displayName = 'VirtualList';
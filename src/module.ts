@@ -1,6 +1,34 @@
 import { PanelPlugin } from '@grafana/data';
-import { SimpleOptions } from './types';
+import { SimpleOptions, TimeUnit, TraceFieldRole } from './types';
 import { SimplePanel } from './components/SimplePanel';
+import { LogExtractionRulesEditor } from './components/LogExtractionRulesEditor';
+import { SeverityRulesEditor } from './components/SeverityRulesEditor';
+import { ServiceColorOverridesEditor } from './components/ServiceColorOverridesEditor';
+import { SpanFailureRulesEditor } from './components/SpanFailureRulesEditor';
+import { DEFAULT_SEVERITY_RULES } from './utils/logSeverity';
+import { DEFAULT_SPAN_FAILURE_RULES } from './utils/spanFailure';
+
+// Trace frame field roles that can be pinned in the "Trace field mapping" options category
+const FIELD_MAPPING_ROLES: Array<{ role: TraceFieldRole; name: string }> = [
+  { role: 'traceId', name: 'Trace ID field' },
+  { role: 'spanId', name: 'Span ID field' },
+  { role: 'parentSpanId', name: 'Parent span ID field' },
+  { role: 'operation', name: 'Operation name field' },
+  { role: 'service', name: 'Service name field' },
+  { role: 'start', name: 'Start time field' },
+  { role: 'duration', name: 'Duration field' },
+  { role: 'tags', name: 'Tags field' },
+  { role: 'serviceTags', name: 'Service tags field' },
+];
+
+// Unit choices for epoch time fields
+const TIME_UNIT_OPTIONS: Array<{ value: 'auto' | TimeUnit; label: string }> = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'nanoseconds', label: 'Nanoseconds (ns)' },
+  { value: 'microseconds', label: 'Microseconds (µs)' },
+  { value: 'milliseconds', label: 'Milliseconds (ms)' },
+  { value: 'seconds', label: 'Seconds (s)' },
+];
 
 export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOptions((builder) => {
   return builder
@@ -16,6 +44,34 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       description: 'Color-code spans by service',
       defaultValue: true,
     })
+    .addRadio({
+      path: 'serviceColorPalette',
+      name: 'Service color palette',
+      description:
+        "Colors services are picked from, by a hash of the service name so they stay the same across traces, panels and reloads. Theme uses the Grafana theme's visualization colors.",
+      defaultValue: 'classic',
+      settings: {
+        options: [
+          { value: 'classic', label: 'Classic' },
+          { value: 'theme', label: 'Theme' },
+        ],
+      },
+    })
+    .addCustomEditor({
+      id: 'serviceColorOverrides',
+      path: 'serviceColorOverrides',
+      name: 'Service color overrides',
+      description: 'Fixed colors for some services, for example to match the colors used in other dashboards',
+      editor: ServiceColorOverridesEditor,
+      defaultValue: [],
+    })
+    .addBooleanSwitch({
+      path: 'showCriticalPath',
+      name: 'Highlight critical path',
+      description:
+        'Mark the parts of spans that made up the end-to-end trace time on their bars, and offer a toggle in the timeline header to dim the other spans',
+      defaultValue: false,
+    })
     .addBooleanSwitch({
       path: 'collapsedByDefault',
       name: 'Collapse logs by default',
@@ -70,6 +126,24 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
         ],
       },
     })
+    .addSelect({
+      path: 'startTimeUnit',
+      name: 'Start time unit',
+      description: 'Unit of span start times in trace frames (epoch). Auto-detect reads it from the magnitude.',
+      defaultValue: 'auto',
+      settings: {
+        options: TIME_UNIT_OPTIONS,
+      },
+    })
+    .addSelect({
+      path: 'logTimestampUnit',
+      name: 'Log timestamp unit',
+      description: 'Unit of log timestamps (epoch). Auto-detect reads it from the magnitude.',
+      defaultValue: 'auto',
+      settings: {
+        options: TIME_UNIT_OPTIONS,
+      },
+    })
     .addTextInput({
       path: 'lokiTraceIdField',
       name: 'Loki trace ID field',
@@ -82,6 +156,43 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       description: 'Field name in Loki logs containing the span ID',
       defaultValue: 'spanId',
     })
+    .addCustomEditor({
+      id: 'logExtractionRules',
+      path: 'logExtractionRules',
+      name: 'Log ID extraction rules',
+      description:
+        'Regexes with named groups traceId, spanId and level, run against log lines that have no ID field or label (for example trace=(?<traceId>\\w+) span=(?<spanId>\\w+)). The first matching rule wins.',
+      editor: LogExtractionRulesEditor,
+      defaultValue: [],
+    })
+    .addCustomEditor({
+      id: 'severityRules',
+      path: 'severityRules',
+      name: 'Severity rules',
+      description:
+        'How log levels are classified, for the level badges, the minimum log level filter and Colorize by log level. Checked in order: deny list, OTel severity_number, level field value, then line rules unless the line is on the allow list. Keywords match whole words.',
+      editor: SeverityRulesEditor,
+      defaultValue: DEFAULT_SEVERITY_RULES,
+    })
+    .addRadio({
+      path: 'logMatchMode',
+      name: 'Log matching',
+      description:
+        'How logs that carry only a trace ID are attributed by time: to every span whose window overlaps them, or only to the deepest span containing them',
+      defaultValue: 'overlapping',
+      settings: {
+        options: [
+          { value: 'overlapping', label: 'All overlapping spans' },
+          { value: 'deepest', label: 'Deepest span' },
+        ],
+      },
+    })
+    .addBooleanSwitch({
+      path: 'hideTimeWindowLogs',
+      name: 'Hide time-window matches',
+      description: 'Only show logs matched by span ID, hiding logs guessed from their trace ID and timestamp',
+      defaultValue: false,
+    })
     .addTextInput({
       path: 'minLogLevel',
       name: 'Minimum log level (supports variables)',
@@ -95,6 +206,22 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       description:
         'Control which spans are shown based on their success status. Allowed values: all, failed, successful. You can use Grafana variables such as ${var}',
       defaultValue: 'all',
+    })
+    .addCustomEditor({
+      id: 'spanFailureRules',
+      path: 'spanFailureRules',
+      name: 'Span failure rules',
+      description:
+        'Tag conditions that mark a span failed, one per rule: "<tag> <op> <value>" with >=, >, <=, <, ==, !=, contains, or "<tag> exists". An OTel status (otel.status_code / status.code) of ERROR or OK takes precedence; rules apply when it is missing or UNSET.',
+      editor: SpanFailureRulesEditor,
+      defaultValue: DEFAULT_SPAN_FAILURE_RULES,
+    })
+    .addBooleanSwitch({
+      path: 'showDiagnostics',
+      name: 'Diagnostics',
+      description:
+        'Show an overlay listing the frames parsed and their fields, detected units, span and log counts, log matches per method and parse warnings',
+      defaultValue: false,
     });
 
     // Toggle to show/hide related logs by default
@@ -104,4 +231,38 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       description: 'When off, related logs panels for spans will be hidden. Can still toggle at runtime.',
       defaultValue: true,
     });
+
+    builder.addBooleanSwitch({
+      path: 'adjustClockSkew',
+      name: 'Adjust clock skew',
+      description:
+        'Shift child spans from another service back inside their parent span when host clocks drift. Adjusted spans are marked in the timeline.',
+      defaultValue: true,
+    });
+
+    builder.addTextInput({
+      path: 'otlpJson',
+      name: 'Trace JSON',
+      description:
+        'Paste an OTLP/JSON (resourceSpans → scopeSpans → spans), Jaeger JSON or Zipkin v2 JSON trace export to render it without a Tempo query. Files can also be dropped or pasted onto the panel.',
+      defaultValue: '',
+      settings: {
+        useTextarea: true,
+        rows: 6,
+        placeholder: '{ "resourceSpans": [ ... ] }',
+      },
+    });
+
+    // Pin trace frame fields by exact name; empty roles fall back to auto-detection
+    FIELD_MAPPING_ROLES.forEach(({ role, name }) => {
+      builder.addFieldNamePicker({
+        path: `fieldMapping.${role}`,
+        name,
+        description: 'Exact name of the trace frame field for this role. Leave empty to auto-detect.',
+        category: ['Trace field mapping'],
+        settings: {
+          placeholderText: 'Auto-detect',
+        },
+      });
+    });
 });
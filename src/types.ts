@@ -1,3 +1,5 @@
+import { DataFrame } from '@grafana/data';
+
 // Panel options
 export interface SimpleOptions {
   showDuration: boolean;
@@ -17,6 +19,95 @@ export interface SimpleOptions {
   spanFilter?: 'all' | 'failed' | 'successful';
   // Whether to show related logs by default (can also be toggled at runtime)
   showRelatedLogs?: boolean;
+  // Shift child spans from other services back inside their parent when host clocks drift
+  adjustClockSkew?: boolean;
+  // OTLP, Jaeger or Zipkin JSON trace export rendered in addition to query results
+  otlpJson?: string;
+  // Trace frame fields pinned by exact name; unset roles are auto-detected
+  fieldMapping?: TraceFieldMapping;
+  // Regexes with traceId / spanId / level named groups, run on log lines without ID fields or labels
+  logExtractionRules?: string[];
+  // Logs with only a trace ID go to every overlapping span (the default, as before) or to the deepest one
+  logMatchMode?: 'deepest' | 'overlapping';
+  // Hide logs attributed to a span only because their timestamp falls inside it
+  hideTimeWindowLogs?: boolean;
+  // Unit of span start times in trace frames and of log timestamps, detected from their epoch magnitude on 'auto'
+  startTimeUnit?: 'auto' | TimeUnit;
+  logTimestampUnit?: 'auto' | TimeUnit;
+  // How log levels are read from level fields, OTel severity numbers and line text
+  severityRules?: SeverityRules;
+  // Tag conditions that mark a span failed when it has no OTel status, e.g. "http.status_code >= 500"
+  spanFailureRules?: string[];
+  // Palette service colors are picked from by name hash: the plugin's own colors or the theme's visualization colors
+  serviceColorPalette?: 'classic' | 'theme';
+  // Fixed colors for some services, taking precedence over the palette
+  serviceColorOverrides?: Array<{ service: string; color: string }>;
+  // Show an overlay describing how the panel data was parsed and matched
+  showDiagnostics?: boolean;
+  // Highlight the critical path on span bars (spans off the path can then be dimmed in the panel)
+  showCriticalPath?: boolean;
+}
+
+// Roles a trace frame field can play
+export type TraceFieldRole =
+  'traceId' | 'spanId' | 'parentSpanId' | 'operation' | 'service' | 'start' | 'duration' | 'tags' | 'serviceTags';
+
+// Exact field name pinned for each role
+export type TraceFieldMapping = Partial<Record<TraceFieldRole, string>>;
+
+// Log levels, from most to least severe
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+// Comma-separated keywords matched as whole words, or a regex (both case-insensitive)
+export interface SeverityPattern {
+  pattern: string;
+  isRegex?: boolean;
+}
+
+// Severity classification rules shared by log parsing and span coloring
+export interface SeverityRules {
+  // Comma-separated level field values and the level they stand for
+  levelMappings: Array<{ value: string; level: LogLevel }>;
+  // Inclusive OTel severity_number ranges
+  severityNumberRanges: Array<{ min: number; max: number; level: LogLevel }>;
+  // Run against lines without a known level or severity number; the first match wins
+  lineRules: Array<SeverityPattern & { level: LogLevel }>;
+  // Lines never classified by line rules (e.g. "0 errors found")
+  allowList: SeverityPattern[];
+  // Lines that are always errors, whatever their level
+  denyList: SeverityPattern[];
+}
+
+// Tag condition marking a span failed; rules only apply to spans that carry the tag
+export interface SpanFailureRule {
+  tag: string;
+  operator: '>=' | '>' | '<=' | '<' | '==' | '!=' | 'contains' | 'exists';
+  value?: string;
+}
+
+// Service colors resolved from the panel options: palette colors picked by name hash, plus per-service overrides
+export interface ServiceColorScheme {
+  palette: string[];
+  overrides: Record<string, string>;
+}
+
+// Part of a span on the trace's critical path (times in µs, like Span.startTime)
+export interface CriticalPathSegment {
+  spanId: string;
+  start: number;
+  end: number;
+}
+
+// "Filter by this value" from the span details: only spans with this tag value are listed
+export interface SpanTagFilter {
+  key: string;
+  value: string;
+}
+
+// Visible part of the trace timeline, as fractions of the trace duration (0 = trace start, 1 = trace end)
+export interface ViewRange {
+  start: number;
+  end: number;
 }
 
 // Log severity levels for coloring
@@ -33,39 +124,129 @@ export interface Span {
   duration: number; // microseconds
   tags: Record<string, string | number | boolean>;
   logs?: SpanLog[];
+  references?: SpanReference[];
   children?: Span[];
   depth?: number;
+  // Synthetic span standing in for a parent that is missing from the trace data
+  isPlaceholder?: boolean;
+  // Offset (µs) applied to this span's subtree by clock-skew adjustment
+  skewAdjustment?: number;
+}
+
+// SpanReference links a span to another span, possibly in another trace (span links, follows-from)
+export interface SpanReference {
+  traceId: string;
+  spanId: string;
+  refType?: 'CHILD_OF' | 'FOLLOWS_FROM' | 'LINK';
+  tags: Record<string, string | number | boolean>;
 }
 
-// SpanLog represents a log entry within a span
+// SpanLog represents a log entry within a span (Tempo span event)
 export interface SpanLog {
-  timestamp: number;
+  timestamp: number; // microseconds, same scale as Span.startTime
+  name?: string;
   fields: Array<{ key: string; value: string | number | boolean }>;
 }
 
 // LogLine from Loki
 export interface LogLine {
-  timestamp: number; // nanoseconds
+  timestamp: bigint; // nanoseconds since epoch, exact (beyond 2^53, so not a number)
   line: string;
   labels: Record<string, string>;
-  level?: 'info' | 'warn' | 'error' | 'debug' | 'trace';
+  level?: LogLevel;
   traceId?: string;
   spanId?: string;
+  // Key/value fields parsed from a JSON or logfmt body (nested JSON keys are dotted)
+  fields?: Record<string, string>;
+  // Where the span ID was read from
+  spanIdSource?: 'field' | 'label' | 'body' | 'regex';
+  // How the log was correlated with the span it is shown under (set by matchLogsToSpans)
+  matchMethod?: LogMatchMethod;
 }
 
+// exact span ID (field or structured body), span ID from a label, span ID from a regex rule, or trace ID + time window
+export type LogMatchMethod = 'spanId' | 'label' | 'regex' | 'timeWindow';
+
 // Trace is a collection of spans
 export interface Trace {
   traceId: string;
   spans: Span[];
   rootSpan?: Span;
+  // Every top-level span: real roots plus placeholders for missing parents
+  rootSpans: Span[];
+  // Number of spans whose parent is missing from the trace data
+  orphanCount: number;
   startTime: number;
   endTime: number;
   duration: number;
   services: string[];
 }
 
+// Time units accepted for span start times, durations and log timestamps
+export type TimeUnit = 'nanoseconds' | 'microseconds' | 'milliseconds' | 'seconds';
+
+// Unit used for a time value while parsing, and whether it was detected or set in the panel options
+export interface DetectedTimeUnit {
+  unit: TimeUnit;
+  source: 'detected' | 'override';
+}
+
+// Units used while parsing the panel data, shown in the diagnostics line
+export interface TimeUnitDiagnostics {
+  startTime?: DetectedTimeUnit;
+  duration?: DetectedTimeUnit;
+  logTimestamp?: DetectedTimeUnit;
+}
+
+// Data frame parsed as spans or logs, with the field found for each role
+export interface FrameDiagnostics {
+  // Position in the panel data
+  index: number;
+  refId?: string;
+  parser: string;
+  rows: number;
+  fields: Record<string, string | undefined>;
+}
+
+// What the Diagnostics overlay shows about parsing: frames, units and problems found on the way
+export interface ParseDiagnostics extends TimeUnitDiagnostics {
+  frames: FrameDiagnostics[];
+  warnings: string[];
+}
+
+// Log-to-span matches per method (a log shown under several spans counts once per span)
+export interface LogMatchStats {
+  byMethod: Record<LogMatchMethod, number>;
+  spansWithLogs: number;
+  unattributed: number;
+}
+
+// Options shared by every trace input adapter
+export interface TraceParseOptions {
+  durationUnit: 'auto' | 'microseconds' | 'milliseconds' | 'seconds';
+  startTimeUnit?: 'auto' | TimeUnit;
+  fieldMapping?: TraceFieldMapping;
+  // Filled in with the frames parsed, the units used for their fields and parse warnings
+  diagnostics?: ParseDiagnostics;
+}
+
+// TraceInputAdapter converts one trace input format into spans.
+// Frame adapters inspect Grafana data frames; document adapters inspect parsed JSON documents (pasted, dropped or embedded in a frame).
+export interface TraceInputAdapter {
+  id: string;
+  name: string;
+  canParseFrame?: (frame: DataFrame, options: TraceParseOptions) => boolean;
+  parseFrame?: (frame: DataFrame, options: TraceParseOptions) => Span[];
+  // Field name used for each role of a frame, for the Diagnostics overlay
+  describeFrame?: (frame: DataFrame, options: TraceParseOptions) => Record<string, string | undefined>;
+  canParseDocument?: (doc: unknown) => boolean;
+  parseDocument?: (doc: unknown, diagnostics?: ParseDiagnostics) => Span[];
+}
+
 // Combined view state - omits original logs from Span and uses LogLine[] instead
 export interface SpanWithLogs extends Omit<Span, 'logs'> {
   logs: LogLine[];
+  // Span events from the trace itself, kept apart from correlated Loki logs
+  events: SpanLog[];
   isExpanded: boolean;
 }
@@ -0,0 +1,99 @@
+import { toDataFrame } from '@grafana/data';
+import { parseTraceData, parseTraceDocument } from './index';
+
+// Tempo-style span frame from [traceId, spanId, parentSpanId, startTime (ms), duration (ms)] rows
+const spanFrame = (refId: string, rows: Array<[string, string, string, number, number]>) =>
+  toDataFrame({
+    refId,
+    fields: [
+      { name: 'traceID', values: rows.map((r) => r[0]) },
+      { name: 'spanID', values: rows.map((r) => r[1]) },
+      { name: 'parentSpanID', values: rows.map((r) => r[2]) },
+      { name: 'serviceName', values: rows.map(() => 'api') },
+      { name: 'startTime', values: rows.map((r) => r[3]) },
+      { name: 'duration', values: rows.map((r) => r[4]) },
+    ],
+  });
+
+describe('parseTraceData', () => {
+  it('splits a frame with several trace IDs into traces, most recent first', () => {
+    const frame = spanFrame('A', [
+      ['old', 'o1', '', 1_700_000_000_000, 10],
+      ['new', 'n1', '', 1_700_000_060_000, 10],
+      ['old', 'o2', 'o1', 1_700_000_000_002, 5],
+    ]);
+
+    const traces = parseTraceData([frame]);
+
+    expect(traces.map((t) => [t.traceId, t.spans.map((s) => s.spanId)])).toEqual([
+      ['new', ['n1']],
+      ['old', ['o1', 'o2']],
+    ]);
+  });
+
+  it('joins the spans of a trace spread across frames, skipping duplicates', () => {
+    const traces = parseTraceData([
+      spanFrame('A', [['t1', 'root', '', 1_700_000_000_000, 10]]),
+      spanFrame('B', [
+        ['t1', 'child', 'root', 1_700_000_000_001, 5],
+        ['t1', 'root', '', 1_700_000_000_000, 10],
+      ]),
+    ]);
+
+    expect(traces).toHaveLength(1);
+    expect(traces[0].spans.map((s) => s.spanId)).toEqual(['root', 'child']);
+    expect(traces[0].rootSpan?.children?.map((s) => s.spanId)).toEqual(['child']);
+  });
+});
+
+describe('parseTraceDocument', () => {
+  const otlp = {
+    resourceSpans: [
+      {
+        resource: { attributes: [{ key: 'service.name', value: { stringValue: 'api' } }] },
+        scopeSpans: [
+          { spans: [{ traceId: 'aa', spanId: '01', name: 'op', startTimeUnixNano: '1000', endTimeUnixNano: '3000' }] },
+        ],
+      },
+    ],
+  };
+  const jaeger = {
+    data: [
+      {
+        traceID: 'bb',
+        spans: [{ traceID: 'bb', spanID: 's1', startTime: 1, duration: 2, processID: 'p1' }],
+        processes: { p1: { serviceName: 'api' } },
+      },
+    ],
+  };
+  const zipkin = [{ traceId: 'cc', id: 's1', timestamp: 1, duration: 2, localEndpoint: { serviceName: 'api' } }];
+
+  it('detects the format of each document', () => {
+    expect(parseTraceDocument(JSON.stringify(otlp)).map((t) => t.traceId)).toEqual(['aa']);
+    expect(parseTraceDocument(JSON.stringify(jaeger)).map((t) => t.traceId)).toEqual(['bb']);
+    expect(parseTraceDocument(JSON.stringify(zipkin)).map((t) => t.traceId)).toEqual(['cc']);
+  });
+
+  it('groups spans of several traces, most recent first', () => {
+    const spans = [
+      { traceId: 'old', id: 'a', timestamp: 100, duration: 10, localEndpoint: { serviceName: 'api' } },
+      { traceId: 'new', id: 'b', timestamp: 200, duration: 10, localEndpoint: { serviceName: 'api' } },
+      { traceId: 'old', id: 'c', parentId: 'a', timestamp: 105, duration: 2, localEndpoint: { serviceName: 'api' } },
+    ];
+
+    const traces = parseTraceDocument(JSON.stringify(spans));
+
+    expect(traces.map((t) => [t.traceId, t.spans.length])).toEqual([
+      ['new', 1],
+      ['old', 2],
+    ]);
+  });
+
+  it('rejects text that is not a trace document', () => {
+    expect(parseTraceDocument('')).toEqual([]);
+    expect(parseTraceDocument('not json')).toEqual([]);
+    expect(parseTraceDocument('{"resourceSpans": [')).toEqual([]);
+    expect(parseTraceDocument('{"status": "ok", "items": [1, 2]}')).toEqual([]);
+    expect(parseTraceDocument('[{"id": 1, "name": "row"}]')).toEqual([]);
+  });
+});
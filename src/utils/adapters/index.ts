@@ -0,0 +1,150 @@
+import { DataFrame } from '@grafana/data';
+import { ParseDiagnostics, Span, Trace, TraceInputAdapter, TraceParseOptions } from '../../types';
+import { buildTraceTree } from '../traceUtils';
+import { jaegerAdapter } from './jaeger';
+import { otlpAdapter } from './otlp';
+import { tempoAdapter } from './tempo';
+import { zipkinAdapter } from './zipkin';
+
+/**
+ * Registered input adapters, tried in order; the first one that recognizes a frame or document parses it
+ */
+const traceAdapters: TraceInputAdapter[] = [tempoAdapter, otlpAdapter, jaegerAdapter, zipkinAdapter];
+
+/**
+ * Register an additional input adapter. It is tried before the built-in ones.
+ */
+export function registerTraceAdapter(adapter: TraceInputAdapter) {
+  const existing = traceAdapters.findIndex((a) => a.id === adapter.id);
+  if (existing >= 0) {
+    traceAdapters.splice(existing, 1);
+  }
+  traceAdapters.unshift(adapter);
+}
+
+function findDocumentAdapter(doc: unknown): TraceInputAdapter | undefined {
+  return traceAdapters.find((a) => a.parseDocument && a.canParseDocument?.(doc));
+}
+
+function tryParseJson(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const text = value.trim();
+  if (!text.startsWith('{') && !text.startsWith('[')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Parse spans from a frame that carries whole trace documents in a field (e.g. a JSON API query returning a Jaeger export)
+ */
+function parseDocumentFrame(frame: DataFrame, index: number, diagnostics?: ParseDiagnostics): Span[] {
+  const spans: Span[] = [];
+  for (const field of frame.fields) {
+    if (field.type !== 'string' && field.type !== 'other') {
+      continue;
+    }
+    // Only fields whose first value is a trace document are scanned, so log frames are not JSON-parsed line by line
+    const first = tryParseJson(field.values[0]);
+    const firstAdapter = first !== undefined ? findDocumentAdapter(first) : undefined;
+    if (!firstAdapter) {
+      continue;
+    }
+    for (const value of field.values) {
+      const doc = tryParseJson(value);
+      const adapter = doc !== undefined ? findDocumentAdapter(doc) : undefined;
+      if (adapter) {
+        spans.push(...adapter.parseDocument!(doc, diagnostics));
+      }
+    }
+    diagnostics?.frames.push({
+      index,
+      refId: frame.refId,
+      parser: firstAdapter.name,
+      rows: frame.length,
+      fields: { document: field.name },
+    });
+  }
+  return spans;
+}
+
+/**
+ * Group spans by trace ID into trace trees, skipping duplicates, most recent trace first
+ */
+function groupSpansIntoTraces(spans: Span[]): Trace[] {
+  const spansByTrace = new Map<string, Span[]>();
+  const seen = new Set<string>();
+  for (const span of spans) {
+    if (!span.traceId || !span.spanId) {
+      continue;
+    }
+    const key = `${span.traceId}:${span.spanId}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    if (!spansByTrace.has(span.traceId)) {
+      spansByTrace.set(span.traceId, []);
+    }
+    spansByTrace.get(span.traceId)!.push(span);
+  }
+
+  const traces = Array.from(spansByTrace.values()).map((traceSpans) => buildTraceTree(traceSpans));
+  return traces.sort((a, b) => b.startTime - a.startTime);
+}
+
+/**
+ * Parse trace data from Grafana DataFrames.
+ * Each frame goes to the first adapter that recognizes it (Tempo-style span frames), otherwise its string fields are
+ * checked for embedded trace documents. Spans are grouped by trace ID, so several traces yield several Trace objects.
+ */
+export function parseTraceData(frames: DataFrame[], options: TraceParseOptions = { durationUnit: 'auto' }): Trace[] {
+  const { diagnostics } = options;
+  const spans: Span[] = [];
+  frames.forEach((frame, index) => {
+    const adapter = traceAdapters.find((a) => a.parseFrame && a.canParseFrame?.(frame, options));
+    if (adapter) {
+      const frameSpans = adapter.parseFrame!(frame, options);
+      if (frameSpans.length > 0) {
+        diagnostics?.frames.push({
+          index,
+          refId: frame.refId,
+          parser: adapter.name,
+          rows: frame.length,
+          fields: adapter.describeFrame?.(frame, options) ?? {},
+        });
+      }
+      spans.push(...frameSpans);
+    } else {
+      spans.push(...parseDocumentFrame(frame, index, diagnostics));
+    }
+  });
+
+  if (spans.length === 0) {
+    diagnostics?.warnings.push('No trace frame found in the query data');
+    return [];
+  }
+  return groupSpansIntoTraces(spans);
+}
+
+/**
+ * Parse a pasted or dropped trace document (OTLP, Jaeger or Zipkin JSON), picking the adapter by inspecting it.
+ * Returns no traces when the text is not valid JSON or no adapter recognizes it.
+ */
+export function parseTraceDocument(text: string, diagnostics?: ParseDiagnostics): Trace[] {
+  if (!text || !text.trim()) {
+    return [];
+  }
+  const doc = tryParseJson(text);
+  const adapter = doc !== undefined ? findDocumentAdapter(doc) : undefined;
+  if (!adapter) {
+    return [];
+  }
+  return groupSpansIntoTraces(adapter.parseDocument!(doc, diagnostics));
+}
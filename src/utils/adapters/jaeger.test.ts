@@ -0,0 +1,85 @@
+import { jaegerAdapter } from './jaeger';
+
+// Jaeger UI "Download JSON" export
+const jaegerExport = {
+  data: [
+    {
+      traceID: 'a1b2c3',
+      spans: [
+        {
+          traceID: 'a1b2c3',
+          spanID: 'root',
+          operationName: 'GET /orders',
+          references: [],
+          startTime: 1_000_000,
+          duration: 500,
+          tags: [{ key: 'http.method', type: 'string', value: 'GET' }],
+          logs: [
+            { timestamp: 1_000_300, fields: [{ key: 'event', type: 'string', value: 'cache miss' }] },
+            { timestamp: 1_000_100, fields: [{ key: 'message', type: 'string', value: 'start' }] },
+          ],
+          processID: 'p1',
+        },
+        {
+          traceID: 'a1b2c3',
+          spanID: 'child',
+          operationName: 'publish',
+          references: [
+            { refType: 'FOLLOWS_FROM', traceID: 'a1b2c3', spanID: 'batch' },
+            { refType: 'CHILD_OF', traceID: 'a1b2c3', spanID: 'root' },
+            { refType: 'CHILD_OF', traceID: 'other', spanID: 'remote' },
+          ],
+          startTime: 1_000_200,
+          duration: 100,
+          processID: 'p2',
+        },
+      ],
+      processes: {
+        p1: { serviceName: 'frontend', tags: [{ key: 'hostname', type: 'string', value: 'web-1' }] },
+        p2: { serviceName: 'queue' },
+      },
+    },
+  ],
+};
+
+describe('jaegerAdapter', () => {
+  it('recognizes { data: [...] }, single traces and trace arrays', () => {
+    expect(jaegerAdapter.canParseDocument!(jaegerExport)).toBe(true);
+    expect(jaegerAdapter.canParseDocument!(jaegerExport.data[0])).toBe(true);
+    expect(jaegerAdapter.canParseDocument!(jaegerExport.data)).toBe(true);
+    expect(jaegerAdapter.canParseDocument!({ data: [{ spans: [] }] })).toBe(false);
+    expect(jaegerAdapter.canParseDocument!({ spans: [{ id: 'x' }] })).toBe(false);
+  });
+
+  it('resolves services from the processes table and keeps process tags', () => {
+    const [root] = jaegerAdapter.parseDocument!(jaegerExport);
+
+    expect(root).toMatchObject({
+      traceId: 'a1b2c3',
+      spanId: 'root',
+      parentSpanId: undefined,
+      operationName: 'GET /orders',
+      serviceName: 'frontend',
+      startTime: 1_000_000,
+      duration: 500,
+      tags: { 'process.hostname': 'web-1', 'http.method': 'GET' },
+      references: undefined,
+    });
+    // Sorted by time, named after their "event" field
+    expect(root.logs).toEqual([
+      { timestamp: 1_000_100, name: undefined, fields: [{ key: 'message', value: 'start' }] },
+      { timestamp: 1_000_300, name: 'cache miss', fields: [{ key: 'event', value: 'cache miss' }] },
+    ]);
+  });
+
+  it('takes the first same-trace CHILD_OF reference as parent and keeps the others as links', () => {
+    const [, child] = jaegerAdapter.parseDocument!(jaegerExport);
+
+    expect(child.serviceName).toBe('queue');
+    expect(child.parentSpanId).toBe('root');
+    expect(child.references).toEqual([
+      { traceId: 'a1b2c3', spanId: 'batch', refType: 'FOLLOWS_FROM', tags: {} },
+      { traceId: 'other', spanId: 'remote', refType: 'CHILD_OF', tags: {} },
+    ]);
+  });
+});
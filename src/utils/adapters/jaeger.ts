@@ -0,0 +1,106 @@
+import { Span, SpanLog, SpanReference, TraceInputAdapter } from '../../types';
+
+type TagValue = string | number | boolean;
+
+// Jaeger UI / query API JSON (GET /api/traces/{id}, "Download JSON" in Jaeger UI)
+interface JaegerKeyValue {
+  key: string;
+  type?: string;
+  value: TagValue;
+}
+
+interface JaegerSpan {
+  traceID: string;
+  spanID: string;
+  operationName?: string;
+  references?: Array<{ refType?: string; traceID: string; spanID: string }>;
+  startTime: number; // microseconds
+  duration: number; // microseconds
+  tags?: JaegerKeyValue[];
+  logs?: Array<{ timestamp: number; fields?: JaegerKeyValue[] }>;
+  processID?: string;
+  process?: JaegerProcess;
+}
+
+interface JaegerProcess {
+  serviceName?: string;
+  tags?: JaegerKeyValue[];
+}
+
+interface JaegerTrace {
+  traceID?: string;
+  spans: JaegerSpan[];
+  processes?: Record<string, JaegerProcess>;
+}
+
+function isJaegerTrace(value: unknown): value is JaegerTrace {
+  const spans = (value as JaegerTrace | undefined)?.spans;
+  return (
+    Array.isArray(spans) && (spans.length === 0 || (spans[0]?.traceID !== undefined && spans[0]?.spanID !== undefined))
+  );
+}
+
+// Accepts { data: [trace, ...] }, a single trace, or an array of traces
+function getJaegerTraces(doc: unknown): JaegerTrace[] {
+  const data = (doc as { data?: unknown } | undefined)?.data ?? doc;
+  const candidates = Array.isArray(data) ? data : [data];
+  return candidates.filter(isJaegerTrace);
+}
+
+function toTags(values?: JaegerKeyValue[], prefix = ''): Record<string, TagValue> {
+  const tags: Record<string, TagValue> = {};
+  (values ?? []).forEach((kv) => {
+    tags[`${prefix}${kv.key}`] = kv.value;
+  });
+  return tags;
+}
+
+function convertSpan(span: JaegerSpan, processes: Record<string, JaegerProcess>): Span {
+  const process = span.process ?? (span.processID ? processes[span.processID] : undefined);
+
+  // The first CHILD_OF reference within the same trace is the parent; every other reference stays a link
+  const parentRef = (span.references ?? []).find(
+    (ref) => (ref.refType ?? 'CHILD_OF').toUpperCase() === 'CHILD_OF' && ref.traceID === span.traceID
+  );
+  const references: SpanReference[] = (span.references ?? [])
+    .filter((ref) => ref !== parentRef)
+    .map((ref) => ({
+      traceId: ref.traceID,
+      spanId: ref.spanID,
+      refType: (ref.refType ?? '').toUpperCase() === 'FOLLOWS_FROM' ? 'FOLLOWS_FROM' : 'CHILD_OF',
+      tags: {},
+    }));
+
+  const events: SpanLog[] = (span.logs ?? [])
+    .map((log) => {
+      const fields = (log.fields ?? []).map((f) => ({ key: f.key, value: f.value }));
+      const name = fields.find((f) => f.key === 'event')?.value;
+      return { timestamp: Number(log.timestamp), name: name !== undefined ? String(name) : undefined, fields };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    traceId: span.traceID,
+    spanId: span.spanID,
+    parentSpanId: parentRef?.spanID,
+    operationName: span.operationName || 'unknown',
+    serviceName: process?.serviceName || 'unknown',
+    startTime: Number(span.startTime),
+    duration: Number(span.duration),
+    tags: { ...toTags(process?.tags, 'process.'), ...toTags(span.tags) },
+    logs: events.length > 0 ? events : undefined,
+    references: references.length > 0 ? references : undefined,
+  };
+}
+
+/**
+ * Jaeger UI JSON exports: data[].spans with a processes table and CHILD_OF / FOLLOWS_FROM references.
+ * Process tags are kept as tags with a "process." prefix.
+ */
+export const jaegerAdapter: TraceInputAdapter = {
+  id: 'jaeger',
+  name: 'Jaeger JSON',
+  canParseDocument: (doc) => getJaegerTraces(doc).some((trace) => trace.spans.length > 0),
+  parseDocument: (doc) =>
+    getJaegerTraces(doc).flatMap((trace) => trace.spans.map((span) => convertSpan(span, trace.processes ?? {}))),
+};
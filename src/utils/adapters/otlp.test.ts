@@ -0,0 +1,123 @@
+import { otlpAdapter } from './otlp';
+
+// OTLP/JSON export: one current scopeSpans block and one pre-1.0 instrumentationLibrarySpans block
+const otlpExport = {
+  resourceSpans: [
+    {
+      resource: {
+        attributes: [
+          { key: 'service.name', value: { stringValue: 'checkout' } },
+          { key: 'host.cpus', value: { intValue: '4' } },
+        ],
+      },
+      scopeSpans: [
+        {
+          scope: { name: 'io.opentelemetry.http', version: '1.2.0' },
+          spans: [
+            {
+              traceId: '5B8EFFF798038103D269B633813FC60C',
+              spanId: 'EEE19B7EC3C1B174',
+              name: 'POST /checkout',
+              kind: 2,
+              startTimeUnixNano: '1000000000',
+              endTimeUnixNano: '1250000000',
+              attributes: [
+                { key: 'http.status_code', value: { intValue: 500 } },
+                { key: 'http.retry', value: { boolValue: true } },
+                { key: 'http.hosts', value: { arrayValue: { values: [{ stringValue: 'a' }, { stringValue: 'b' }] } } },
+              ],
+              events: [
+                {
+                  timeUnixNano: '1200000000',
+                  name: 'exception',
+                  attributes: [{ key: 'exception.type', value: { stringValue: 'Timeout' } }],
+                },
+                { timeUnixNano: '1100000000', name: 'retry' },
+              ],
+              links: [{ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331' }],
+              status: { code: 2, message: 'upstream timeout' },
+            },
+          ],
+        },
+      ],
+      instrumentationLibrarySpans: [
+        {
+          instrumentationLibrary: { name: 'legacy-db' },
+          spans: [
+            {
+              // Protobuf-default base64 IDs
+              traceId: 'W47/95gDgQPSabYzgT/GDA==',
+              spanId: 'AQIDBAUGBwg=',
+              parentSpanId: '7uGbfsPBsXQ=',
+              name: 'SELECT orders',
+              kind: 'SPAN_KIND_CLIENT',
+              startTimeUnixNano: 1050000000,
+              endTimeUnixNano: 1150000000,
+              status: { code: 'STATUS_CODE_OK' },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('otlpAdapter', () => {
+  it('recognizes documents with resourceSpans only', () => {
+    expect(otlpAdapter.canParseDocument!(otlpExport)).toBe(true);
+    expect(otlpAdapter.canParseDocument!({ resourceSpans: {} })).toBe(false);
+    expect(otlpAdapter.canParseDocument!({ data: [] })).toBe(false);
+    expect(otlpAdapter.canParseDocument!(null)).toBe(false);
+  });
+
+  it('converts spans with resource, scope, kind and status tags', () => {
+    const [server] = otlpAdapter.parseDocument!(otlpExport);
+
+    expect(server).toMatchObject({
+      traceId: '5b8efff798038103d269b633813fc60c',
+      spanId: 'eee19b7ec3c1b174',
+      parentSpanId: undefined,
+      operationName: 'POST /checkout',
+      serviceName: 'checkout',
+      startTime: 1_000_000,
+      duration: 250_000,
+    });
+    expect(server.tags).toEqual({
+      'resource.service.name': 'checkout',
+      'resource.host.cpus': 4,
+      'http.status_code': 500,
+      'http.retry': true,
+      'http.hosts': '["a","b"]',
+      'otel.scope.name': 'io.opentelemetry.http',
+      'otel.scope.version': '1.2.0',
+      'span.kind': 'server',
+      'otel.status_code': 'ERROR',
+      'otel.status_description': 'upstream timeout',
+    });
+    expect(server.logs).toEqual([
+      { timestamp: 1_100_000, name: 'retry', fields: [] },
+      { timestamp: 1_200_000, name: 'exception', fields: [{ key: 'exception.type', value: 'Timeout' }] },
+    ]);
+    expect(server.references).toEqual([
+      { traceId: '0af7651916cd43dd8448eb211c80319c', spanId: 'b7ad6b7169203331', refType: 'LINK', tags: {} },
+    ]);
+  });
+
+  it('normalizes base64 IDs to hex and reads instrumentationLibrarySpans', () => {
+    const [, client] = otlpAdapter.parseDocument!(otlpExport);
+
+    expect(client).toMatchObject({
+      traceId: '5b8efff798038103d269b633813fc60c',
+      spanId: '0102030405060708',
+      parentSpanId: 'eee19b7ec3c1b174',
+      serviceName: 'checkout',
+      startTime: 1_050_000,
+      duration: 100_000,
+    });
+    expect(client.tags).toMatchObject({
+      'otel.scope.name': 'legacy-db',
+      'span.kind': 'client',
+      'otel.status_code': 'OK',
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { Span, SpanLog, SpanReference, TraceInputAdapter } from '../../types';
+
+type TagValue = string | number | boolean;
+
+// Subset of the OTLP/JSON trace export schema (opentelemetry-proto, JSON encoding)
+interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string | number;
+  doubleValue?: number;
+  bytesValue?: string;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name?: string;
+  kind?: number | string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: OtlpKeyValue[];
+  events?: Array<{ timeUnixNano?: string | number; name?: string; attributes?: OtlpKeyValue[] }>;
+  links?: Array<{ traceId: string; spanId: string; attributes?: OtlpKeyValue[] }>;
+  status?: { code?: number | string; message?: string };
+}
+
+interface OtlpScopeSpans {
+  scope?: { name?: string; version?: string };
+  spans?: OtlpSpan[];
+}
+
+interface OtlpResourceSpans {
+  resource?: { attributes?: OtlpKeyValue[] };
+  scopeSpans?: OtlpScopeSpans[];
+  // Pre-1.0 name of scopeSpans, still found in older exports
+  instrumentationLibrarySpans?: Array<{
+    instrumentationLibrary?: { name?: string; version?: string };
+    spans?: OtlpSpan[];
+  }>;
+}
+
+const SPAN_KINDS = ['unspecified', 'internal', 'server', 'client', 'producer', 'consumer'];
+const STATUS_CODES = ['UNSET', 'OK', 'ERROR'];
+
+/**
+ * Check whether a parsed JSON document looks like an OTLP/JSON trace export
+ */
+function isOtlpDocument(doc: unknown): doc is { resourceSpans: OtlpResourceSpans[] } {
+  return Boolean(doc && typeof doc === 'object' && Array.isArray((doc as { resourceSpans?: unknown }).resourceSpans));
+}
+
+function toTagValue(value?: OtlpAnyValue): TagValue {
+  if (!value) {
+    return '';
+  }
+  if (value.stringValue !== undefined) {
+    return value.stringValue;
+  }
+  if (value.boolValue !== undefined) {
+    return value.boolValue;
+  }
+  if (value.intValue !== undefined) {
+    return Number(value.intValue);
+  }
+  if (value.doubleValue !== undefined) {
+    return value.doubleValue;
+  }
+  if (value.bytesValue !== undefined) {
+    return value.bytesValue;
+  }
+  if (value.arrayValue) {
+    return JSON.stringify((value.arrayValue.values ?? []).map(toTagValue));
+  }
+  if (value.kvlistValue) {
+    return JSON.stringify(attributesToTags(value.kvlistValue.values));
+  }
+  return '';
+}
+
+function attributesToTags(attributes?: OtlpKeyValue[], prefix = ''): Record<string, TagValue> {
+  const tags: Record<string, TagValue> = {};
+  (attributes ?? []).forEach((attr) => {
+    tags[`${prefix}${attr.key}`] = toTagValue(attr.value);
+  });
+  return tags;
+}
+
+/**
+ * OTLP/JSON encodes IDs as hex, but some exporters emit the protobuf default (base64); normalize to hex
+ */
+function normalizeId(id?: string): string {
+  if (!id) {
+    return '';
+  }
+  if (/^[0-9a-f]+$/i.test(id)) {
+    return id.toLowerCase();
+  }
+  try {
+    return Array.from(atob(id), (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+  } catch (e) {
+    return id;
+  }
+}
+
+// Nanosecond epoch (string or number) to microseconds
+function nanosToMicros(value?: string | number): number {
+  return Number(value ?? 0) / 1000;
+}
+
+function convertSpan(
+  span: OtlpSpan,
+  serviceName: string,
+  resourceTags: Record<string, TagValue>,
+  scope?: { name?: string; version?: string }
+): Span {
+  const startTime = nanosToMicros(span.startTimeUnixNano);
+  const endTime = nanosToMicros(span.endTimeUnixNano);
+
+  const tags: Record<string, TagValue> = { ...resourceTags, ...attributesToTags(span.attributes) };
+  if (scope?.name) {
+    tags['otel.scope.name'] = scope.name;
+  }
+  if (scope?.version) {
+    tags['otel.scope.version'] = scope.version;
+  }
+  if (span.kind !== undefined) {
+    const kind = typeof span.kind === 'number' ? SPAN_KINDS[span.kind] : String(span.kind).replace(/^SPAN_KIND_/, '');
+    if (kind && kind.toLowerCase() !== 'unspecified') {
+      tags['span.kind'] = kind.toLowerCase();
+    }
+  }
+  if (span.status) {
+    const code =
+      typeof span.status.code === 'number'
+        ? STATUS_CODES[span.status.code]
+        : String(span.status.code ?? 'UNSET').replace(/^STATUS_CODE_/, '');
+    if (code && code !== 'UNSET') {
+      tags['otel.status_code'] = code;
+    }
+    if (span.status.message) {
+      tags['otel.status_description'] = span.status.message;
+    }
+  }
+
+  const events: SpanLog[] = (span.events ?? [])
+    .map((ev) => ({
+      timestamp: nanosToMicros(ev.timeUnixNano),
+      name: ev.name,
+      fields: Object.entries(attributesToTags(ev.attributes)).map(([key, value]) => ({ key, value })),
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const references: SpanReference[] = (span.links ?? []).map((link) => ({
+    traceId: normalizeId(link.traceId),
+    spanId: normalizeId(link.spanId),
+    refType: 'LINK',
+    tags: attributesToTags(link.attributes),
+  }));
+
+  return {
+    traceId: normalizeId(span.traceId),
+    spanId: normalizeId(span.spanId),
+    parentSpanId: normalizeId(span.parentSpanId) || undefined,
+    operationName: span.name || 'unknown',
+    serviceName,
+    startTime,
+    duration: Math.max(0, endTime - startTime),
+    tags,
+    logs: events.length > 0 ? events : undefined,
+    references: references.length > 0 ? references : undefined,
+  };
+}
+
+/**
+ * Convert an OTLP/JSON trace export (resourceSpans → scopeSpans → spans) into spans.
+ * Resource attributes are kept as tags with a "resource." prefix; scope, kind and status map to the usual OTel tag names.
+ */
+function parseOtlpSpans(doc: unknown): Span[] {
+  if (!isOtlpDocument(doc)) {
+    return [];
+  }
+
+  const spans: Span[] = [];
+  for (const resourceSpans of doc.resourceSpans) {
+    const resourceAttributes = attributesToTags(resourceSpans.resource?.attributes);
+    const serviceName = String(resourceAttributes['service.name'] ?? 'unknown');
+    const resourceTags = attributesToTags(resourceSpans.resource?.attributes, 'resource.');
+
+    const scopes: OtlpScopeSpans[] = [
+      ...(resourceSpans.scopeSpans ?? []),
+      ...(resourceSpans.instrumentationLibrarySpans ?? []).map((lib) => ({
+        scope: lib.instrumentationLibrary,
+        spans: lib.spans,
+      })),
+    ];
+
+    for (const scopeSpans of scopes) {
+      for (const otlpSpan of scopeSpans.spans ?? []) {
+        spans.push(convertSpan(otlpSpan, serviceName, resourceTags, scopeSpans.scope));
+      }
+    }
+  }
+  return spans;
+}
+
+/**
+ * OpenTelemetry OTLP/JSON trace exports
+ */
+export const otlpAdapter: TraceInputAdapter = {
+  id: 'otlp',
+  name: 'OTLP JSON',
+  canParseDocument: isOtlpDocument,
+  parseDocument: parseOtlpSpans,
+};
@@ -0,0 +1,144 @@
+import { FieldType, toDataFrame } from '@grafana/data';
+import { resolveTraceFields, tempoAdapter } from './tempo';
+
+const frameWith = (...names: string[]) =>
+  toDataFrame({ fields: names.map((name) => ({ name, type: FieldType.string, values: [] })) });
+
+const resolvedNames = (fields: ReturnType<typeof resolveTraceFields>) =>
+  Object.fromEntries(Object.entries(fields).map(([role, field]) => [role, field?.name]));
+
+describe('resolveTraceFields', () => {
+  it('detects fields by exact name before partial matches', () => {
+    const frame = frameWith(
+      'spanIdentifier',
+      'traceID',
+      'spanID',
+      'operationName',
+      'serviceName',
+      'startTime',
+      'duration'
+    );
+
+    expect(resolvedNames(resolveTraceFields(frame))).toEqual({
+      traceId: 'traceID',
+      spanId: 'spanID',
+      operation: 'operationName',
+      service: 'serviceName',
+      start: 'startTime',
+      duration: 'duration',
+    });
+  });
+
+  it('lets pinned names override auto-detection', () => {
+    const frame = frameWith('traceID', 'spanID', 'id', 'operationName', 'endpoint');
+
+    const fields = resolveTraceFields(frame, { spanId: 'id', operation: ' endpoint ' });
+
+    expect(fields.spanId?.name).toBe('id');
+    expect(fields.operation?.name).toBe('endpoint');
+    // Unpinned roles are still detected
+    expect(fields.traceId?.name).toBe('traceID');
+  });
+
+  it('never claims a field for two roles', () => {
+    // "parentSpanID" contains "spanid" but is taken as the parent, so there is no span ID
+    expect(resolvedNames(resolveTraceFields(frameWith('traceID', 'parentSpanID')))).toEqual({
+      traceId: 'traceID',
+      parentSpanId: 'parentSpanID',
+    });
+
+    // A field pinned for two roles goes to the first one; the other falls back to auto-detection
+    const fields = resolveTraceFields(frameWith('id', 'span_id'), { traceId: 'id', spanId: 'id' });
+    expect(fields.traceId?.name).toBe('id');
+    expect(fields.spanId?.name).toBe('span_id');
+  });
+});
+
+describe('tempoAdapter', () => {
+  // Shape of a Tempo trace frame: tags and serviceTags as arrays of { key, value }
+  const tempoFrame = (overrides: Record<string, unknown[]> = {}) =>
+    toDataFrame({
+      fields: Object.entries({
+        traceID: ['abc'],
+        spanID: ['s1'],
+        parentSpanID: [''],
+        operationName: ['GET /orders'],
+        serviceName: ['api'],
+        serviceTags: [
+          [
+            { key: 'service.name', value: 'api' },
+            { key: 'host.name', value: 'node-1' },
+          ],
+        ],
+        startTime: [1_700_000_000_000],
+        duration: [12.5],
+        tags: [[{ key: 'http.status_code', value: 200 }]],
+        ...overrides,
+      }).map(([name, values]) => ({ name, values })),
+    });
+  const parse = (frame: ReturnType<typeof tempoFrame>) =>
+    tempoAdapter.parseFrame!(frame, { durationUnit: 'auto', startTimeUnit: 'auto' });
+
+  it('keeps service tags as resource attributes next to the span tags', () => {
+    const [span] = parse(tempoFrame());
+
+    expect(span.tags).toEqual({
+      'resource.service.name': 'api',
+      'resource.host.name': 'node-1',
+      'http.status_code': 200,
+    });
+    expect(tempoAdapter.describeFrame!(tempoFrame(), { durationUnit: 'auto' })).toMatchObject({
+      tags: 'tags',
+      serviceTags: 'serviceTags',
+    });
+  });
+
+  it('converts event timestamps with the start time unit and keeps their fields', () => {
+    // Start times in milliseconds, so events are too
+    const [span] = parse(
+      tempoFrame({
+        logs: [
+          [
+            { timestamp: 1_700_000_000_004, name: 'retry', fields: [{ key: 'attempt', value: 2 }] },
+            { timestamp: 1_700_000_000_001, fields: 'not a list' },
+            null,
+          ],
+        ],
+      })
+    );
+
+    expect(span.startTime).toBe(1_700_000_000_000_000);
+    expect(span.logs).toEqual([
+      { timestamp: 1_700_000_000_001_000, name: undefined, fields: [] },
+      { timestamp: 1_700_000_000_004_000, name: 'retry', fields: [{ key: 'attempt', value: 2 }] },
+    ]);
+  });
+
+  it('reads references and links, skipping malformed entries', () => {
+    const [span] = parse(
+      tempoFrame({
+        references: [
+          [
+            { refType: 'child_of', traceID: 'abc', spanID: 'p1' },
+            { refType: 'FOLLOWS_FROM', traceId: 'abc', spanId: 'batch' },
+            { traceID: 'other', spanID: 'remote', tags: [{ key: 'link.reason', value: 'retry' }] },
+            { refType: 'CHILD_OF', traceID: 'abc' },
+            'not a reference',
+            null,
+          ],
+        ],
+      })
+    );
+
+    expect(span.references).toEqual([
+      { traceId: 'abc', spanId: 'p1', refType: 'CHILD_OF', tags: {} },
+      { traceId: 'abc', spanId: 'batch', refType: 'FOLLOWS_FROM', tags: {} },
+      { traceId: 'other', spanId: 'remote', refType: 'LINK', tags: { 'link.reason': 'retry' } },
+    ]);
+  });
+
+  it('leaves references out when there are none', () => {
+    expect(parse(tempoFrame({ references: [[]] }))[0].references).toBeUndefined();
+    expect(parse(tempoFrame({ references: ['{}'] }))[0].references).toBeUndefined();
+  });
+});
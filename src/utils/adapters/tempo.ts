@@ -0,0 +1,251 @@
+import { DataFrame, Field, getFieldDisplayName } from '@grafana/data';
+import {
+  Span,
+  SpanLog,
+  SpanReference,
+  TraceFieldMapping,
+  TraceFieldRole,
+  TraceInputAdapter,
+  TraceParseOptions,
+} from '../../types';
+import { detectDurationUnit, detectEpochUnit, MICROSECONDS_PER_UNIT, resolveTimeUnit } from '../timeUnits';
+
+// Auto-detection candidates per role (lowercase). Exact names win over partial matches, and a field claimed by
+// one role is never reused for another, so "parentSpanID" cannot become the span ID and "serviceName" the operation.
+const FIELD_CANDIDATES: Record<TraceFieldRole, { exact: string[]; partial: string[] }> = {
+  traceId: { exact: ['traceid', 'trace_id', 'trace.id'], partial: ['traceid', 'trace_id'] },
+  spanId: { exact: ['spanid', 'span_id', 'span.id'], partial: ['spanid', 'span_id'] },
+  parentSpanId: {
+    exact: ['parentspanid', 'parent_span_id', 'parent.id', 'parentid'],
+    partial: ['parentspanid', 'parent_span_id', 'parentid'],
+  },
+  operation: {
+    exact: ['operationname', 'operation_name', 'operation', 'spanname', 'span_name', 'name'],
+    partial: ['operationname', 'operation_name', 'spanname'],
+  },
+  service: { exact: ['servicename', 'service_name', 'service.name', 'service'], partial: ['servicename', 'service_name'] },
+  start: { exact: ['starttime', 'start_time', 'start', 'timestamp'], partial: ['starttime', 'start_time'] },
+  duration: { exact: ['duration'], partial: ['duration'] },
+  tags: { exact: ['tags', 'attributes', 'spanattributes'], partial: ['tags'] },
+  // Resource attributes (Tempo's serviceTags), kept as "resource."-prefixed tags
+  serviceTags: {
+    exact: ['servicetags', 'service_tags', 'resourceattributes', 'resource_attributes'],
+    partial: ['servicetags', 'service_tags'],
+  },
+};
+
+// OTel status codes by number, as in Tempo's statusCode field
+const STATUS_CODES = ['UNSET', 'OK', 'ERROR'];
+
+// Resolution order: pinned names first, then exact auto-detection for every role, then partial matches
+const FIELD_ROLES = Object.keys(FIELD_CANDIDATES) as TraceFieldRole[];
+
+/**
+ * Resolve the field playing each role in a trace frame
+ */
+export function resolveTraceFields(
+  frame: DataFrame,
+  mapping: TraceFieldMapping = {}
+): Partial<Record<TraceFieldRole, Field>> {
+  const resolved: Partial<Record<TraceFieldRole, Field>> = {};
+  const claimed = new Set<Field>();
+  const claim = (role: TraceFieldRole, field?: Field) => {
+    if (field && !resolved[role]) {
+      resolved[role] = field;
+      claimed.add(field);
+    }
+  };
+  const available = () => frame.fields.filter((f) => !claimed.has(f));
+
+  for (const role of FIELD_ROLES) {
+    const pinned = mapping[role]?.trim();
+    if (pinned) {
+      claim(role, available().find((f) => f.name === pinned || getFieldDisplayName(f, frame) === pinned));
+    }
+  }
+  for (const role of FIELD_ROLES) {
+    const { exact } = FIELD_CANDIDATES[role];
+    claim(role, available().find((f) => exact.includes(f.name?.toLowerCase() ?? '')));
+  }
+  for (const role of FIELD_ROLES) {
+    const { partial } = FIELD_CANDIDATES[role];
+    claim(role, available().find((f) => partial.some((p) => f.name?.toLowerCase().includes(p))));
+  }
+  return resolved;
+}
+
+/**
+ * Check whether a frame carries trace spans (has both trace ID and span ID fields)
+ */
+function isTraceFrame(frame: DataFrame, { fieldMapping }: TraceParseOptions): boolean {
+  const fields = resolveTraceFields(frame, fieldMapping);
+  return Boolean(fields.traceId && fields.spanId);
+}
+
+/**
+ * Field name used for each role of a trace frame
+ */
+function describeTraceFrame(frame: DataFrame, { fieldMapping }: TraceParseOptions): Record<string, string | undefined> {
+  const fields = resolveTraceFields(frame, fieldMapping);
+  return Object.fromEntries(FIELD_ROLES.map((role) => [role, fields[role]?.name]));
+}
+
+/**
+ * Parse the spans of a single trace frame
+ */
+function parseTraceFrame(
+  traceFrame: DataFrame,
+  { durationUnit, startTimeUnit, fieldMapping, diagnostics }: TraceParseOptions
+): Span[] {
+  const fields = resolveTraceFields(traceFrame, fieldMapping);
+  const traceIdField = fields.traceId;
+  const spanIdField = fields.spanId;
+  const parentSpanIdField = fields.parentSpanId;
+  const operationNameField = fields.operation;
+  const serviceNameField = fields.service;
+  const startTimeField = fields.start;
+  const durationField = fields.duration;
+  const tagsField = fields.tags;
+  const serviceTagsField = fields.serviceTags;
+  const logsField = traceFrame.fields.find((f) => f.name?.toLowerCase() === 'logs');
+  const referencesField = traceFrame.fields.find((f) => f.name?.toLowerCase() === 'references');
+  // Tempo keeps the OTel span status in its own fields (statusCode 0 unset, 1 ok, 2 error)
+  const statusCodeField = traceFrame.fields.find((f) => f.name?.toLowerCase() === 'statuscode');
+  const statusMessageField = traceFrame.fields.find((f) => f.name?.toLowerCase() === 'statusmessage');
+
+  if (!traceIdField || !spanIdField || !startTimeField || !durationField) {
+    const missing = (['traceId', 'spanId', 'start', 'duration'] as const).filter((role) => !fields[role]);
+    diagnostics?.warnings.push(
+      `Frame ${traceFrame.refId ?? traceFrame.name ?? ''} not parsed as spans: no ${missing.join(', ')} field`
+    );
+    return [];
+  }
+
+  const spans: Span[] = [];
+  const length = traceFrame.length;
+
+  // Start times and durations are converted to µs, each with its own unit (overridden or detected from magnitude)
+  const startUnit = resolveTimeUnit(startTimeUnit, () => detectEpochUnit(startTimeField.values), 'microseconds');
+  const durationUnitUsed = resolveTimeUnit(
+    durationUnit,
+    () => detectDurationUnit(durationField.values),
+    'microseconds'
+  );
+  const startMultiplier = MICROSECONDS_PER_UNIT[startUnit.unit];
+  const durationMultiplier = MICROSECONDS_PER_UNIT[durationUnitUsed.unit];
+  if (diagnostics) {
+    diagnostics.startTime = startUnit;
+    diagnostics.duration = durationUnitUsed;
+  }
+
+  for (let i = 0; i < length; i++) {
+    // Resource attributes first (prefixed as in the OTLP adapter), then the span's own tags
+    const tags: Record<string, string | number | boolean> = {
+      ...(serviceTagsField ? parseTagsValue(serviceTagsField.values[i], 'resource.') : {}),
+      ...(tagsField ? parseTagsValue(tagsField.values[i]) : {}),
+    };
+
+    const statusCode = statusCodeField ? STATUS_CODES[Number(statusCodeField.values[i])] : undefined;
+    if (statusCode && statusCode !== 'UNSET' && !('otel.status_code' in tags)) {
+      tags['otel.status_code'] = statusCode;
+      if (statusMessageField?.values[i]) {
+        tags['otel.status_description'] = String(statusMessageField.values[i]);
+      }
+    }
+
+    // Parse span events (Tempo stores them in the "logs" field, timestamps on the same scale as startTime)
+    const events: SpanLog[] = [];
+    if (logsField && Array.isArray(logsField.values[i])) {
+      for (const ev of logsField.values[i]) {
+        if (!ev || typeof ev !== 'object') {
+          continue;
+        }
+        events.push({
+          timestamp: Number(ev.timestamp) * startMultiplier,
+          name: ev.name ? String(ev.name) : undefined,
+          fields: Array.isArray(ev.fields) ? ev.fields : [],
+        });
+      }
+      events.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    const references = referencesField ? parseSpanReferences(referencesField.values[i]) : [];
+
+    spans.push({
+      traceId: String(traceIdField.values[i]),
+      spanId: String(spanIdField.values[i]),
+      parentSpanId: parentSpanIdField ? String(parentSpanIdField.values[i] || '') : undefined,
+      operationName: operationNameField ? String(operationNameField.values[i] || 'unknown') : 'unknown',
+      serviceName: serviceNameField ? String(serviceNameField.values[i] || 'unknown') : 'unknown',
+      startTime: Number(startTimeField.values[i]) * startMultiplier,
+      duration: Number(durationField.values[i]) * durationMultiplier,
+      tags,
+      logs: events.length > 0 ? events : undefined,
+      references: references.length > 0 ? references : undefined,
+    });
+  }
+
+  return spans;
+}
+
+/**
+ * Parse a tags cell: an array of { key, value } (Tempo) or a plain object
+ */
+function parseTagsValue(value: unknown, prefix = ''): Record<string, string | number | boolean> {
+  const tags: Record<string, string | number | boolean> = {};
+  if (Array.isArray(value)) {
+    value.forEach((tag: { key: string; value: string | number | boolean }) => {
+      tags[`${prefix}${tag.key}`] = tag.value;
+    });
+  } else if (value && typeof value === 'object') {
+    Object.entries(value as Record<string, string | number | boolean>).forEach(([key, tagValue]) => {
+      tags[`${prefix}${key}`] = tagValue;
+    });
+  }
+  return tags;
+}
+
+/**
+ * Parse the references of a span (Tempo/Jaeger shape: { traceID, spanID, refType?, tags? })
+ */
+function parseSpanReferences(value: unknown): SpanReference[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const references: SpanReference[] = [];
+  for (const ref of value) {
+    const traceId = ref?.traceID ?? ref?.traceId;
+    const spanId = ref?.spanID ?? ref?.spanId;
+    if (!traceId || !spanId) {
+      continue;
+    }
+
+    const tags: Record<string, string | number | boolean> = {};
+    if (Array.isArray(ref.tags)) {
+      ref.tags.forEach((tag: { key: string; value: string | number | boolean }) => {
+        tags[tag.key] = tag.value;
+      });
+    }
+
+    const refType = String(ref.refType ?? '').toUpperCase();
+    references.push({
+      traceId: String(traceId),
+      spanId: String(spanId),
+      refType: refType === 'CHILD_OF' || refType === 'FOLLOWS_FROM' ? refType : 'LINK',
+      tags,
+    });
+  }
+  return references;
+}
+
+/**
+ * Tempo (and Grafana's Jaeger/Zipkin datasources): one row per span in a trace data frame
+ */
+export const tempoAdapter: TraceInputAdapter = {
+  id: 'tempo',
+  name: 'Tempo data frame',
+  canParseFrame: isTraceFrame,
+  parseFrame: parseTraceFrame,
+  describeFrame: describeTraceFrame,
+};
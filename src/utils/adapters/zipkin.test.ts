@@ -0,0 +1,112 @@
+import { zipkinAdapter } from './zipkin';
+
+// Zipkin v2 trace (GET /api/v2/trace/{id}) with a shared client/server span pair
+const zipkinTrace = [
+  {
+    traceId: 'abc',
+    id: 'root',
+    name: 'get /cart',
+    kind: 'SERVER',
+    timestamp: 1_000_000,
+    duration: 900,
+    localEndpoint: { serviceName: 'frontend', ipv4: '10.0.0.1' },
+    annotations: [
+      { timestamp: 1_000_500, value: 'ws' },
+      { timestamp: 1_000_100, value: 'wr' },
+    ],
+    tags: { 'http.path': '/cart' },
+  },
+  {
+    traceId: 'abc',
+    id: 'rpc',
+    parentId: 'root',
+    name: 'getcart',
+    kind: 'CLIENT',
+    timestamp: 1_000_100,
+    duration: 600,
+    localEndpoint: { serviceName: 'frontend' },
+    remoteEndpoint: { serviceName: 'cart' },
+  },
+  {
+    traceId: 'abc',
+    id: 'rpc',
+    parentId: 'root',
+    name: 'getcart',
+    kind: 'SERVER',
+    shared: true,
+    timestamp: 1_000_150,
+    duration: 500,
+    localEndpoint: { serviceName: 'cart' },
+  },
+  {
+    traceId: 'abc',
+    id: 'query',
+    parentId: 'rpc',
+    name: 'select',
+    timestamp: 1_000_200,
+    duration: 100,
+    localEndpoint: { serviceName: 'cart' },
+  },
+];
+
+describe('zipkinAdapter', () => {
+  it('recognizes span arrays and arrays of traces', () => {
+    expect(zipkinAdapter.canParseDocument!(zipkinTrace)).toBe(true);
+    expect(zipkinAdapter.canParseDocument!([zipkinTrace, zipkinTrace])).toBe(true);
+    expect(zipkinAdapter.canParseDocument!({ spans: zipkinTrace })).toBe(false);
+    expect(zipkinAdapter.canParseDocument!([{ traceId: 'abc', id: 'x' }])).toBe(false);
+  });
+
+  it('maps endpoints, kind and annotations onto the span', () => {
+    const [root, client] = zipkinAdapter.parseDocument!(zipkinTrace);
+
+    expect(root).toMatchObject({
+      traceId: 'abc',
+      spanId: 'root',
+      parentSpanId: undefined,
+      operationName: 'get /cart',
+      serviceName: 'frontend',
+      startTime: 1_000_000,
+      duration: 900,
+      tags: { 'http.path': '/cart', 'span.kind': 'server', 'process.ip': '10.0.0.1' },
+    });
+    expect(root.logs).toEqual([
+      { timestamp: 1_000_100, name: 'wr', fields: [] },
+      { timestamp: 1_000_500, name: 'ws', fields: [] },
+    ]);
+    expect(client.tags).toEqual({ 'span.kind': 'client', 'peer.service': 'cart' });
+  });
+
+  it('splits shared spans and hangs the server half under the client', () => {
+    const spans = zipkinAdapter.parseDocument!(zipkinTrace);
+
+    expect(spans.map((s) => [s.spanId, s.parentSpanId, s.serviceName])).toEqual([
+      ['root', undefined, 'frontend'],
+      ['rpc', 'root', 'frontend'],
+      ['rpc-server', 'rpc', 'cart'],
+      // Children on the server's service attach to the server half
+      ['query', 'rpc-server', 'cart'],
+    ]);
+  });
+
+  it('places spans without a timestamp at their parent or trace start, with a warning', () => {
+    const diagnostics = { frames: [], warnings: [] as string[] };
+    const spans = zipkinAdapter.parseDocument!(
+      [
+        ...zipkinTrace,
+        { traceId: 'abc', id: 'untimed', parentId: 'query', localEndpoint: { serviceName: 'cart' } },
+        { traceId: 'abc', id: 'lost', parentId: 'missing', localEndpoint: { serviceName: 'cart' } },
+        { traceId: 'nothing', id: 'x', localEndpoint: { serviceName: 'cart' } },
+      ],
+      diagnostics
+    );
+
+    expect(spans.filter((s) => s.startTime === 0)).toEqual([]);
+    expect(spans.find((s) => s.spanId === 'untimed')?.startTime).toBe(1_000_200);
+    expect(spans.find((s) => s.spanId === 'lost')?.startTime).toBe(1_000_000);
+    expect(spans.find((s) => s.traceId === 'nothing')).toBeUndefined();
+    expect(diagnostics.warnings).toEqual([
+      "3 Zipkin span(s) without a timestamp: 2 placed at their parent's or trace's start, 1 skipped",
+    ]);
+  });
+});
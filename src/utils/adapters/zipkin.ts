@@ -0,0 +1,157 @@
+import { ParseDiagnostics, Span, SpanLog, TraceInputAdapter } from '../../types';
+
+// Zipkin v2 JSON span (GET /api/v2/trace/{id} returns an array of these, /api/v2/traces an array of arrays)
+interface ZipkinEndpoint {
+  serviceName?: string;
+  ipv4?: string;
+  ipv6?: string;
+  port?: number;
+}
+
+interface ZipkinSpan {
+  traceId: string;
+  id: string;
+  parentId?: string;
+  name?: string;
+  kind?: 'CLIENT' | 'SERVER' | 'PRODUCER' | 'CONSUMER';
+  timestamp?: number; // microseconds
+  duration?: number; // microseconds
+  localEndpoint?: ZipkinEndpoint;
+  remoteEndpoint?: ZipkinEndpoint;
+  annotations?: Array<{ timestamp: number; value: string }>;
+  tags?: Record<string, string>;
+  shared?: boolean;
+}
+
+function isZipkinSpan(value: unknown): value is ZipkinSpan {
+  const span = value as ZipkinSpan | undefined;
+  return Boolean(
+    span &&
+    typeof span === 'object' &&
+    typeof span.traceId === 'string' &&
+    typeof span.id === 'string' &&
+    (span.localEndpoint !== undefined || span.timestamp !== undefined)
+  );
+}
+
+// Accepts a span array (one trace) or an array of span arrays (several traces)
+function getZipkinSpans(doc: unknown): ZipkinSpan[] {
+  if (!Array.isArray(doc)) {
+    return [];
+  }
+  const spans = doc.every(Array.isArray) ? doc.flat() : doc;
+  return spans.filter(isZipkinSpan);
+}
+
+function convertSpan(span: ZipkinSpan, startTime: number, spanId: string, parentSpanId?: string): Span {
+  const tags: Record<string, string | number | boolean> = { ...(span.tags ?? {}) };
+  if (span.kind) {
+    tags['span.kind'] = span.kind.toLowerCase();
+  }
+  if (span.remoteEndpoint?.serviceName) {
+    tags['peer.service'] = span.remoteEndpoint.serviceName;
+  }
+  if (span.localEndpoint?.ipv4 || span.localEndpoint?.ipv6) {
+    tags['process.ip'] = (span.localEndpoint.ipv4 ?? span.localEndpoint.ipv6)!;
+  }
+
+  const events: SpanLog[] = (span.annotations ?? [])
+    .map((annotation) => ({ timestamp: Number(annotation.timestamp), name: annotation.value, fields: [] }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    traceId: span.traceId,
+    spanId,
+    parentSpanId,
+    operationName: span.name || 'unknown',
+    serviceName: span.localEndpoint?.serviceName || 'unknown',
+    startTime,
+    duration: Number(span.duration ?? 0),
+    tags,
+    logs: events.length > 0 ? events : undefined,
+  };
+}
+
+/**
+ * Start time for every span. A span without a timestamp (e.g. only annotated by a remote service) takes the start
+ * of its nearest timestamped ancestor, else of its trace, rather than epoch 0; spans of traces without any timestamp
+ * get none and are skipped.
+ */
+function resolveStartTimes(zipkinSpans: ZipkinSpan[]): Map<ZipkinSpan, number> {
+  const byId = new Map<string, ZipkinSpan>();
+  const traceStarts = new Map<string, number>();
+  zipkinSpans.forEach((s) => {
+    if (!s.shared || !byId.has(`${s.traceId}:${s.id}`)) {
+      byId.set(`${s.traceId}:${s.id}`, s);
+    }
+    if (s.timestamp !== undefined) {
+      traceStarts.set(s.traceId, Math.min(traceStarts.get(s.traceId) ?? Infinity, Number(s.timestamp)));
+    }
+  });
+
+  const starts = new Map<ZipkinSpan, number>();
+  zipkinSpans.forEach((s) => {
+    const visited = new Set<ZipkinSpan>();
+    let current: ZipkinSpan | undefined = s;
+    while (current && current.timestamp === undefined && !visited.has(current)) {
+      visited.add(current);
+      current = current.parentId ? byId.get(`${s.traceId}:${current.parentId}`) : undefined;
+    }
+    const start = current?.timestamp !== undefined ? Number(current.timestamp) : traceStarts.get(s.traceId);
+    if (start !== undefined) {
+      starts.set(s, start);
+    }
+  });
+  return starts;
+}
+
+function parseZipkinSpans(doc: unknown, diagnostics?: ParseDiagnostics): Span[] {
+  const allSpans = getZipkinSpans(doc);
+  const startTimes = resolveStartTimes(allSpans);
+  const zipkinSpans = allSpans.filter((s) => startTimes.has(s));
+
+  const untimed = allSpans.filter((s) => s.timestamp === undefined);
+  if (untimed.length > 0) {
+    const skipped = allSpans.length - zipkinSpans.length;
+    diagnostics?.warnings.push(
+      `${untimed.length} Zipkin span(s) without a timestamp: ${untimed.length - skipped} placed at their parent's or ` +
+        `trace's start, ${skipped} skipped`
+    );
+  }
+
+  // A shared (server) span reuses its client's ID; give it its own ID and hang it under the client half.
+  // Children from the server's service then attach to the server half instead of the client.
+  const ids = new Set(zipkinSpans.filter((s) => !s.shared).map((s) => `${s.traceId}:${s.id}`));
+  const serverHalves = new Map<string, string | undefined>();
+  zipkinSpans.forEach((s) => {
+    if (s.shared && ids.has(`${s.traceId}:${s.id}`)) {
+      serverHalves.set(`${s.traceId}:${s.id}`, s.localEndpoint?.serviceName);
+    }
+  });
+
+  return zipkinSpans.map((span) => {
+    const key = `${span.traceId}:${span.id}`;
+    if (span.shared && serverHalves.has(key)) {
+      return convertSpan(span, startTimes.get(span)!, `${span.id}-server`, span.id);
+    }
+    const parentKey = `${span.traceId}:${span.parentId}`;
+    if (
+      span.parentId &&
+      serverHalves.has(parentKey) &&
+      serverHalves.get(parentKey) === span.localEndpoint?.serviceName
+    ) {
+      return convertSpan(span, startTimes.get(span)!, span.id, `${span.parentId}-server`);
+    }
+    return convertSpan(span, startTimes.get(span)!, span.id, span.parentId);
+  });
+}
+
+/**
+ * Zipkin v2 JSON span arrays: localEndpoint.serviceName, kind and annotations map onto the span model
+ */
+export const zipkinAdapter: TraceInputAdapter = {
+  id: 'zipkin',
+  name: 'Zipkin v2 JSON',
+  canParseDocument: (doc) => getZipkinSpans(doc).length > 0,
+  parseDocument: parseZipkinSpans,
+};
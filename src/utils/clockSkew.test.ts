@@ -0,0 +1,76 @@
+import { adjustClockSkew } from './clockSkew';
+import { buildTraceTree } from './traceUtils';
+import { Span } from '../types';
+
+const span = (
+  spanId: string,
+  parentSpanId: string | undefined,
+  serviceName: string,
+  startTime: number,
+  duration: number
+): Span => ({
+  traceId: 'trace',
+  spanId,
+  parentSpanId,
+  operationName: spanId,
+  serviceName,
+  startTime,
+  duration,
+  tags: {},
+});
+
+describe('adjustClockSkew', () => {
+  it('centers a skewed child in its parent and shifts its subtree in place', () => {
+    const child = span('child', 'root', 'api', 300, 20);
+    const grandchild = span('grandchild', 'child', 'api', 305, 5);
+    grandchild.logs = [{ timestamp: 306, fields: [] }];
+    const trace = buildTraceTree([span('root', undefined, 'web', 0, 100), child, grandchild]);
+
+    const adjusted = adjustClockSkew(trace);
+
+    // 20µs child in a 100µs parent: 40µs of latency on each side
+    expect(child.startTime).toBe(40);
+    expect(child.skewAdjustment).toBe(-260);
+    expect(grandchild.startTime).toBe(45);
+    expect(grandchild.logs[0].timestamp).toBe(46);
+    expect(grandchild.skewAdjustment).toBeUndefined();
+    expect(adjusted.spans).toBe(trace.spans);
+    expect(adjusted).toMatchObject({ startTime: 0, endTime: 100, duration: 100 });
+  });
+
+  it('leaves children on the same service alone', () => {
+    const child = span('child', 'root', 'web', 300, 20);
+    const trace = adjustClockSkew(buildTraceTree([span('root', undefined, 'web', 0, 100), child]));
+
+    expect(child.startTime).toBe(300);
+    expect(child.skewAdjustment).toBeUndefined();
+    expect(trace).toMatchObject({ startTime: 0, endTime: 320 });
+  });
+
+  it('aligns a child longer than its parent to the parent start', () => {
+    const early = span('early', 'root', 'api', 80, 100);
+    const late = span('late', 'root', 'db', 120, 100);
+    adjustClockSkew(buildTraceTree([span('root', undefined, 'web', 100, 50), early, late]));
+
+    expect(early.startTime).toBe(100);
+    expect(early.skewAdjustment).toBe(20);
+    // Starts inside the parent: it cannot fit, and moving it would not help
+    expect(late.startTime).toBe(120);
+    expect(late.skewAdjustment).toBeUndefined();
+  });
+
+  it('re-derives placeholder windows and trace timing from the adjusted spans', () => {
+    const skewed = span('skewed', 'orphan', 'api', 500, 20);
+    const trace = buildTraceTree([span('orphan', 'missing', 'web', 0, 100), skewed]);
+    const placeholder = trace.rootSpans[0];
+    // A stale window, e.g. from spans adjusted before
+    placeholder.startTime = -50;
+    placeholder.duration = 1000;
+
+    const adjusted = adjustClockSkew(trace);
+
+    expect(skewed.startTime).toBe(40);
+    expect(placeholder).toMatchObject({ isPlaceholder: true, startTime: 0, duration: 100 });
+    expect(adjusted).toMatchObject({ startTime: 0, endTime: 100, duration: 100 });
+  });
+});
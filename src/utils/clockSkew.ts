@@ -0,0 +1,65 @@
+import { Span, Trace } from '../types';
+import { getSpansWindow } from './traceUtils';
+
+/**
+ * Compute the offset (µs) that moves a child span back inside its parent's window.
+ * Mirrors Jaeger's heuristic: a child longer than its parent is aligned to the parent's start,
+ * otherwise it is centered in the parent, splitting the unknown network latency evenly on both sides.
+ */
+function getSkewDelta(parent: Span, child: Span): number {
+  const parentEnd = parent.startTime + parent.duration;
+  const childEnd = child.startTime + child.duration;
+
+  if (child.startTime >= parent.startTime && childEnd <= parentEnd) {
+    return 0;
+  }
+
+  if (child.duration > parent.duration) {
+    // Only fix a child that starts before its parent; it can never fit entirely
+    return child.startTime < parent.startTime ? parent.startTime - child.startTime : 0;
+  }
+
+  const latency = (parent.duration - child.duration) / 2;
+  return parent.startTime + latency - child.startTime;
+}
+
+function shiftSubtree(span: Span, delta: number) {
+  span.startTime += delta;
+  span.logs?.forEach((log) => {
+    log.timestamp += delta;
+  });
+  span.children?.forEach((child) => shiftSubtree(child, delta));
+}
+
+/**
+ * Adjust clock skew between services, in place.
+ * Walks the tree top-down; when a child on a different service falls outside its (already adjusted) parent,
+ * the child's whole subtree is shifted and the applied delta is recorded on the child as `skewAdjustment`.
+ */
+export function adjustClockSkew(trace: Trace): Trace {
+  const visit = (parent: Span) => {
+    for (const child of parent.children ?? []) {
+      if (!parent.isPlaceholder && child.serviceName !== parent.serviceName) {
+        const delta = getSkewDelta(parent, child);
+        if (delta !== 0) {
+          shiftSubtree(child, delta);
+          child.skewAdjustment = (child.skewAdjustment ?? 0) + delta;
+        }
+      }
+      visit(child);
+    }
+  };
+  trace.rootSpans.forEach(visit);
+
+  // Re-derive placeholder windows and trace timing from the adjusted spans
+  for (const root of trace.rootSpans) {
+    if (root.isPlaceholder && root.children && root.children.length > 0) {
+      const { start, end } = getSpansWindow(root.children);
+      root.startTime = start;
+      root.duration = end - start;
+    }
+  }
+
+  const { start: startTime, end: endTime } = getSpansWindow(trace.spans);
+  return { ...trace, startTime, endTime, duration: endTime - startTime };
+}
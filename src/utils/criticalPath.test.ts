@@ -0,0 +1,46 @@
+import { computeCriticalPath } from './criticalPath';
+import { buildTraceTree } from './traceUtils';
+import { Span } from '../types';
+
+const span = (spanId: string, parentSpanId: string | undefined, startTime: number, duration: number): Span => ({
+  traceId: 'trace',
+  spanId,
+  parentSpanId,
+  operationName: spanId,
+  serviceName: 'svc',
+  startTime,
+  duration,
+  tags: {},
+});
+
+describe('computeCriticalPath', () => {
+  it('follows the last-finishing children and skips parallel work', () => {
+    // root 0-100: a 10-40 and b 20-60 run in parallel, c 70-90 runs after them; b calls d 30-50
+    const trace = buildTraceTree([
+      span('root', undefined, 0, 100),
+      span('a', 'root', 10, 30),
+      span('b', 'root', 20, 40),
+      span('c', 'root', 70, 20),
+      span('d', 'b', 30, 20),
+    ]);
+
+    expect(computeCriticalPath(trace)).toEqual([
+      { spanId: 'root', start: 0, end: 20 },
+      { spanId: 'b', start: 20, end: 30 },
+      { spanId: 'd', start: 30, end: 50 },
+      { spanId: 'b', start: 50, end: 60 },
+      { spanId: 'root', start: 60, end: 70 },
+      { spanId: 'c', start: 70, end: 90 },
+      { spanId: 'root', start: 90, end: 100 },
+    ]);
+  });
+
+  it('clips children running past their parent', () => {
+    const trace = buildTraceTree([span('root', undefined, 0, 50), span('late', 'root', 40, 30)]);
+
+    expect(computeCriticalPath(trace)).toEqual([
+      { spanId: 'root', start: 0, end: 40 },
+      { spanId: 'late', start: 40, end: 50 },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { CriticalPathSegment, Span, Trace } from '../types';
+
+/**
+ * Critical path of a trace: the parts of spans that made up its end-to-end time. Walking back from the end, each
+ * span is on the path until its last-finishing child ends; the path then continues inside that child, and back in
+ * the parent before the child started. Children overlapping work already on the path ran in parallel and are
+ * skipped; children are clipped to their parent, so clock skew cannot extend the path.
+ * Segments are returned in time order.
+ */
+export function computeCriticalPath(trace: Pick<Trace, 'rootSpans' | 'startTime' | 'endTime'>): CriticalPathSegment[] {
+  const segments: CriticalPathSegment[] = [];
+
+  // Critical sections of `spanId` between `start` and `end`, pushed from the end backwards
+  const walk = (spanId: string | undefined, children: Span[], start: number, end: number) => {
+    const clipped = children
+      .map((child) => ({
+        span: child,
+        start: Math.max(start, child.startTime),
+        end: Math.min(end, child.startTime + child.duration),
+      }))
+      .filter((child) => child.end > child.start)
+      .sort((a, b) => b.end - a.end);
+
+    let cursor = end;
+    for (const child of clipped) {
+      if (child.end > cursor) {
+        continue;
+      }
+      if (spanId !== undefined && cursor > child.end) {
+        segments.push({ spanId, start: child.end, end: cursor });
+      }
+      walk(child.span.spanId, child.span.children ?? [], child.start, child.end);
+      cursor = child.start;
+    }
+    if (spanId !== undefined && cursor > start) {
+      segments.push({ spanId, start, end: cursor });
+    }
+  };
+
+  // The top-level spans are walked as children of the whole trace, so traces with several roots get one path
+  walk(undefined, trace.rootSpans, trace.startTime, trace.endTime);
+  return segments.reverse();
+}
+
+/**
+ * Critical path segments grouped by span ID
+ */
+export function groupCriticalPathBySpan(segments: CriticalPathSegment[]): Map<string, CriticalPathSegment[]> {
+  const bySpan = new Map<string, CriticalPathSegment[]>();
+  segments.forEach((segment) => {
+    const list = bySpan.get(segment.spanId);
+    if (list) {
+      list.push(segment);
+    } else {
+      bySpan.set(segment.spanId, [segment]);
+    }
+  });
+  return bySpan;
+}
@@ -0,0 +1,89 @@
+import { applyLogExtractionRules, compileLogExtractionRules, extractLogBodyIds, parseLogBody } from './logBody';
+
+describe('parseLogBody', () => {
+  it('parses logfmt pairs with bare, quoted and escaped values', () => {
+    expect(
+      parseLogBody(`level=info msg="request \\"done\\"" path='/a b' trace_id=abc123 http.status=200 empty=`)
+    ).toEqual({
+      level: 'info',
+      msg: 'request "done"',
+      path: '/a b',
+      trace_id: 'abc123',
+      'http.status': '200',
+      empty: '',
+    });
+  });
+
+  it('only reads keys that start a word', () => {
+    expect(parseLogBody('[trace=abc] user=alice action=login')).toEqual({ user: 'alice', action: 'login' });
+  });
+
+  it('needs at least two pairs to treat text as logfmt', () => {
+    expect(parseLogBody('retrying with timeout=30s')).toBeUndefined();
+    expect(parseLogBody('plain text line')).toBeUndefined();
+    expect(parseLogBody('   ')).toBeUndefined();
+  });
+
+  it('flattens JSON objects into dotted keys', () => {
+    expect(parseLogBody('{"msg":"ok","trace":{"id":"abc","sampled":true},"tags":["a","b"],"n":null}')).toEqual({
+      msg: 'ok',
+      'trace.id': 'abc',
+      'trace.sampled': 'true',
+      tags: '["a","b"]',
+      n: 'null',
+    });
+  });
+
+  it('falls back to logfmt when a line starting with { is not JSON', () => {
+    expect(parseLogBody('{broken a=1 b=2')).toEqual({ a: '1', b: '2' });
+    expect(parseLogBody('["not", "an object"]')).toBeUndefined();
+  });
+});
+
+describe('extractLogBodyIds', () => {
+  it('picks well-known keys in order', () => {
+    expect(extractLogBodyIds({ traceID: 'second', trace_id: 'first', 'span.id': 's1', severity: 'warn' })).toEqual({
+      traceId: 'first',
+      spanId: 's1',
+      level: 'warn',
+    });
+  });
+
+  it('checks custom keys before the well-known ones', () => {
+    const fields = { trace_id: 'default', 'req.trace': 'custom', span_id: 'span', 'req.span': '' };
+
+    expect(extractLogBodyIds(fields, { traceId: 'req.trace', spanId: 'req.span' })).toEqual({
+      traceId: 'custom',
+      // Empty custom values fall through to the well-known keys
+      spanId: 'span',
+      level: undefined,
+    });
+  });
+});
+
+describe('log extraction rules', () => {
+  it('keeps invalid patterns with their error and drops blank ones', () => {
+    const rules = compileLogExtractionRules(['trace=(?<traceId>\\w+)', '  ', '(?<spanId>[']);
+
+    expect(rules).toHaveLength(2);
+    expect(rules[0].regex).toBeInstanceOf(RegExp);
+    expect(rules[1]).toEqual({ pattern: '(?<spanId>[', error: expect.any(String) });
+  });
+
+  it('returns the named groups of the first rule that matches', () => {
+    const rules = compileLogExtractionRules([
+      '(?<other>x+)',
+      '\\[(?<traceId>[0-9a-f]+)/(?<spanId>[0-9a-f]+)\\]',
+      '(?<level>ERROR|WARN)',
+    ]);
+
+    expect(applyLogExtractionRules(rules, 'xx ERROR [abc/def] failed')).toEqual({
+      ruleIndex: 1,
+      traceId: 'abc',
+      spanId: 'def',
+      level: undefined,
+    });
+    expect(applyLogExtractionRules(rules, 'WARN slow')).toEqual({ ruleIndex: 2, level: 'WARN' });
+    expect(applyLogExtractionRules(rules, 'nothing here')).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+// Body keys holding the trace ID, span ID and level, checked in order
+const TRACE_ID_KEYS = ['trace_id', 'traceId', 'traceid', 'trace.id', 'traceID', 'otelTraceID'];
+const SPAN_ID_KEYS = ['span_id', 'spanId', 'spanid', 'span.id', 'spanID', 'otelSpanID'];
+const LEVEL_KEYS = ['level', 'lvl', 'severity', 'log.level', 'levelname', 'detected_level'];
+
+// key=value, key="quoted value" or key='quoted value' (logfmt); keys start a word so "[trace=abc" is not a pair
+const LOGFMT_PAIR = /(?:^|\s)([A-Za-z_][\w.\-/]*)=(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(\S*))/g;
+
+/**
+ * Flatten a parsed JSON object into dotted keys with string values
+ */
+function flattenJson(value: unknown, prefix: string, fields: Record<string, string>) {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      flattenJson(child, prefix ? `${prefix}.${key}` : key, fields);
+    });
+    return;
+  }
+  if (prefix) {
+    fields[prefix] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
+
+function parseJsonBody(line: string): Record<string, string> | undefined {
+  try {
+    const parsed = JSON.parse(line);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return undefined;
+    }
+    const fields: Record<string, string> = {};
+    flattenJson(parsed, '', fields);
+    return fields;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function parseLogfmtBody(line: string): Record<string, string> | undefined {
+  const fields: Record<string, string> = {};
+  let pairs = 0;
+  for (const match of line.matchAll(LOGFMT_PAIR)) {
+    const [, key, doubleQuoted, singleQuoted, bare] = match;
+    fields[key] = (doubleQuoted ?? singleQuoted)?.replace(/\\(.)/g, '$1') ?? bare ?? '';
+    pairs++;
+  }
+  // A free-text message with a single "a=b" in it is not logfmt
+  return pairs >= 2 ? fields : undefined;
+}
+
+/**
+ * Parse a structured log body (a JSON object or logfmt) into flat key/value fields.
+ * Returns undefined for plain-text lines.
+ */
+export function parseLogBody(line: string): Record<string, string> | undefined {
+  const text = line.trim();
+  if (!text) {
+    return undefined;
+  }
+  if (text.startsWith('{')) {
+    const fields = parseJsonBody(text);
+    if (fields) {
+      return fields;
+    }
+  }
+  return parseLogfmtBody(text);
+}
+
+function pickField(fields: Record<string, string>, keys: string[]): string | undefined {
+  const key = keys.find((k) => fields[k]);
+  return key !== undefined ? fields[key] : undefined;
+}
+
+/**
+ * Pick the trace ID, span ID and level out of parsed body fields.
+ * Custom key names (the Loki trace/span ID field options) are checked before the well-known ones.
+ */
+export function extractLogBodyIds(
+  fields: Record<string, string>,
+  customKeys: { traceId?: string; spanId?: string } = {}
+): { traceId?: string; spanId?: string; level?: string } {
+  return {
+    traceId: pickField(fields, customKeys.traceId ? [customKeys.traceId, ...TRACE_ID_KEYS] : TRACE_ID_KEYS),
+    spanId: pickField(fields, customKeys.spanId ? [customKeys.spanId, ...SPAN_ID_KEYS] : SPAN_ID_KEYS),
+    level: pickField(fields, LEVEL_KEYS),
+  };
+}
+
+// Regex extraction rule compiled from the "Log ID extraction rules" option
+export interface LogExtractionRule {
+  pattern: string;
+  regex?: RegExp;
+  error?: string;
+}
+
+/**
+ * Compile the user-supplied extraction patterns. Invalid patterns are kept with their error so the editor can show it.
+ */
+export function compileLogExtractionRules(patterns: string[] = []): LogExtractionRule[] {
+  return patterns
+    .filter((pattern) => pattern.trim())
+    .map((pattern) => {
+      try {
+        return { pattern, regex: new RegExp(pattern) };
+      } catch (e) {
+        return { pattern, error: e instanceof Error ? e.message : String(e) };
+      }
+    });
+}
+
+/**
+ * Run extraction rules against a log line. The first rule whose traceId, spanId or level named group matches wins.
+ */
+export function applyLogExtractionRules(
+  rules: LogExtractionRule[],
+  line: string
+): { ruleIndex: number; traceId?: string; spanId?: string; level?: string } | undefined {
+  for (let ruleIndex = 0; ruleIndex < rules.length; ruleIndex++) {
+    const groups = rules[ruleIndex].regex?.exec(line)?.groups;
+    if (groups && (groups.traceId || groups.spanId || groups.level)) {
+      return { ruleIndex, traceId: groups.traceId, spanId: groups.spanId, level: groups.level };
+    }
+  }
+  return undefined;
+}
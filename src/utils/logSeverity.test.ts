@@ -0,0 +1,40 @@
+import { classifyLogLevel, compileSeverityRules } from './logSeverity';
+
+describe('classifyLogLevel', () => {
+  const rules = compileSeverityRules();
+
+  it('matches line keywords as whole words only', () => {
+    expect(classifyLogLevel(rules, { line: 'request failed with error' })).toBe('error');
+    expect(classifyLogLevel(rules, { line: 'batch done, 0 errors found' })).toBe('info');
+    expect(classifyLogLevel(rules, { line: 'updated description' })).toBe('info');
+    expect(classifyLogLevel(rules, { line: 'WARN disk almost full' })).toBe('warn');
+  });
+
+  it('prefers the level field over the line text', () => {
+    expect(classifyLogLevel(rules, { line: 'retrying after error', level: 'INFO' })).toBe('info');
+    expect(classifyLogLevel(rules, { line: 'all good', level: 'err' })).toBe('error');
+  });
+
+  it('maps OTel severity numbers, including numeric level values', () => {
+    expect(classifyLogLevel(rules, { line: 'x', severityNumber: 13 })).toBe('warn');
+    expect(classifyLogLevel(rules, { line: 'x', level: '21' })).toBe('error');
+    expect(classifyLogLevel(rules, { line: 'x', level: '5' })).toBe('debug');
+  });
+
+  it('applies allow and deny lists', () => {
+    const custom = compileSeverityRules({
+      allowList: [{ pattern: 'error budget' }],
+      denyList: [{ pattern: 'OutOfMemory\\w*', isRegex: true }],
+    });
+
+    expect(classifyLogLevel(custom, { line: 'error budget at 80%' })).toBe('info');
+    expect(classifyLogLevel(custom, { line: 'java.lang.OutOfMemoryError', level: 'info' })).toBe('error');
+  });
+
+  it('reports invalid regexes without throwing', () => {
+    const custom = compileSeverityRules({ lineRules: [{ pattern: '(', isRegex: true, level: 'error' }] });
+
+    expect(custom.errors.has('(')).toBe(true);
+    expect(classifyLogLevel(custom, { line: '(' })).toBe('info');
+  });
+});
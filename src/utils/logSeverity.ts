@@ -0,0 +1,128 @@
+import { LogLevel, SeverityPattern, SeverityRules } from '../types';
+
+/**
+ * Built-in severity rules, used as the panel option default. Keywords match whole words only, so
+ * "description" or "0 errors found" are not errors.
+ */
+export const DEFAULT_SEVERITY_RULES: SeverityRules = {
+  levelMappings: [
+    { value: 'fatal, panic, critical, crit, emerg, emergency, alert, error, err, eror', level: 'error' },
+    { value: 'warning, warn, wrn', level: 'warn' },
+    { value: 'info, information, informational, notice, inf', level: 'info' },
+    { value: 'debug, dbg', level: 'debug' },
+    { value: 'trace, trc', level: 'trace' },
+  ],
+  // OpenTelemetry SeverityNumber ranges (FATAL1-4 counts as error)
+  severityNumberRanges: [
+    { min: 1, max: 4, level: 'trace' },
+    { min: 5, max: 8, level: 'debug' },
+    { min: 9, max: 12, level: 'info' },
+    { min: 13, max: 16, level: 'warn' },
+    { min: 17, max: 24, level: 'error' },
+  ],
+  lineRules: [
+    { pattern: 'error, exception, critical, fatal, crit, panic', level: 'error' },
+    { pattern: 'warn, warning', level: 'warn' },
+  ],
+  allowList: [],
+  denyList: [],
+};
+
+// Severity rules ready to run on every log line
+export interface CompiledSeverityRules {
+  levels: Map<string, LogLevel>;
+  ranges: SeverityRules['severityNumberRanges'];
+  lineRules: Array<{ regex: RegExp; level: LogLevel }>;
+  allow: RegExp[];
+  deny: RegExp[];
+  // Patterns that failed to compile, for the options editor
+  errors: Map<string, string>;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Comma-separated keywords or phrases, each matched as whole words
+const splitKeywords = (text: string) =>
+  text
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+
+function compilePattern({ pattern, isRegex }: SeverityPattern, errors: Map<string, string>): RegExp | undefined {
+  if (!pattern.trim()) {
+    return undefined;
+  }
+  if (!isRegex) {
+    const keywords = splitKeywords(pattern).map(escapeRegExp);
+    return keywords.length > 0 ? new RegExp(`\\b(?:${keywords.join('|')})\\b`, 'i') : undefined;
+  }
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (e) {
+    errors.set(pattern, e instanceof Error ? e.message : String(e));
+    return undefined;
+  }
+}
+
+/**
+ * Compile severity rules from the panel options, falling back to the built-in rules for unset sections.
+ * Invalid regexes are skipped and reported in `errors`.
+ */
+export function compileSeverityRules(rules: Partial<SeverityRules> = {}): CompiledSeverityRules {
+  const errors = new Map<string, string>();
+  const levels = new Map<string, LogLevel>();
+  (rules.levelMappings ?? DEFAULT_SEVERITY_RULES.levelMappings).forEach(({ value, level }) => {
+    splitKeywords(value).forEach((v) => levels.set(v.toLowerCase(), level));
+  });
+
+  const compileAll = (patterns: SeverityPattern[]) =>
+    patterns.map((p) => compilePattern(p, errors)).filter((regex): regex is RegExp => regex !== undefined);
+
+  return {
+    levels,
+    ranges: rules.severityNumberRanges ?? DEFAULT_SEVERITY_RULES.severityNumberRanges,
+    lineRules: (rules.lineRules ?? DEFAULT_SEVERITY_RULES.lineRules).flatMap((rule) => {
+      const regex = compilePattern(rule, errors);
+      return regex ? [{ regex, level: rule.level }] : [];
+    }),
+    allow: compileAll(rules.allowList ?? DEFAULT_SEVERITY_RULES.allowList),
+    deny: compileAll(rules.denyList ?? DEFAULT_SEVERITY_RULES.denyList),
+    errors,
+  };
+}
+
+/**
+ * Classify one log line. In order: deny list (always error), OTel severity_number, level field value,
+ * then line rules unless the line is on the allow list. Logs nothing classifies are info.
+ */
+export function classifyLogLevel(
+  rules: CompiledSeverityRules,
+  log: { line: string; level?: string; severityNumber?: number }
+): LogLevel {
+  if (rules.deny.some((regex) => regex.test(log.line))) {
+    return 'error';
+  }
+
+  // Numeric level values (OTel exporters sometimes put the SeverityNumber there) count as severity numbers
+  const level = log.level?.trim().toLowerCase();
+  const severityNumber = log.severityNumber ?? (level && /^\d+$/.test(level) ? Number(level) : undefined);
+  if (severityNumber !== undefined) {
+    const range = rules.ranges.find(({ min, max }) => severityNumber >= min && severityNumber <= max);
+    if (range) {
+      return range.level;
+    }
+  }
+
+  const mapped = level ? rules.levels.get(level) : undefined;
+  if (mapped) {
+    return mapped;
+  }
+
+  if (!rules.allow.some((regex) => regex.test(log.line))) {
+    const rule = rules.lineRules.find(({ regex }) => regex.test(log.line));
+    if (rule) {
+      return rule.level;
+    }
+  }
+  return 'info';
+}
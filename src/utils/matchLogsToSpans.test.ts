@@ -0,0 +1,211 @@
+import { LogLine, Span } from '../types';
+import { compareNanoseconds, microsecondsToNanoseconds, nanosecondsToMicroseconds } from './timeUnits';
+import { buildTraceTree, findUnattributedLogs, matchLogsToSpans } from './traceUtils';
+
+const TRACE_ID = 'bench-trace';
+
+/**
+ * Trace fixture: a 4-ary span tree where each child covers a quarter of its parent's window (times in µs)
+ */
+function makeSpans(count: number): Span[] {
+  const spans: Span[] = [];
+  for (let i = 0; i < count; i++) {
+    const parent = i === 0 ? undefined : spans[Math.floor((i - 1) / 4)];
+    const quarter = parent ? parent.duration / 4 : 0;
+    const startTime = parent ? parent.startTime + ((i - 1) % 4) * quarter : 1_700_000_000_000_000;
+    spans.push({
+      traceId: TRACE_ID,
+      spanId: `span-${i}`,
+      parentSpanId: parent?.spanId,
+      operationName: `op-${i % 20}`,
+      serviceName: `service-${i % 7}`,
+      startTime,
+      duration: parent ? quarter * 0.9 : 10_000_000,
+      tags: {},
+    });
+  }
+  return spans;
+}
+
+/**
+ * Log fixture: 90% carry a span ID and fall inside that span, the rest only carry the trace ID (timestamps in ns)
+ */
+function makeLogs(spans: Span[], count: number): LogLine[] {
+  const root = spans[0];
+  const logs: LogLine[] = [];
+  for (let i = 0; i < count; i++) {
+    if (i % 10 === 9) {
+      const t = root.startTime + ((i * 7919) % root.duration);
+      logs.push({ timestamp: microsecondsToNanoseconds(t), line: `trace-only ${i}`, labels: {}, traceId: TRACE_ID });
+    } else {
+      const span = spans[i % spans.length];
+      const t = span.startTime + ((i * 31) % Math.max(1, span.duration));
+      logs.push({
+        timestamp: microsecondsToNanoseconds(t),
+        line: `span log ${i}`,
+        labels: {},
+        traceId: TRACE_ID,
+        spanId: span.spanId,
+      });
+    }
+  }
+  return logs.sort((a, b) => compareNanoseconds(a.timestamp, b.timestamp));
+}
+
+/**
+ * The original per-span filter, kept as the reference for matching semantics
+ */
+function naiveMatch(spans: Span[], logs: LogLine[]): Map<string, LogLine[]> {
+  const result = new Map<string, LogLine[]>();
+  for (const span of spans) {
+    result.set(
+      span.spanId,
+      logs.filter((log) => {
+        if (log.spanId && log.spanId === span.spanId) {
+          return true;
+        }
+        if (log.traceId && log.traceId === span.traceId) {
+          const t = nanosecondsToMicroseconds(log.timestamp);
+          return t >= span.startTime - 1000 && t <= span.startTime + span.duration + 1000;
+        }
+        return false;
+      })
+    );
+  }
+  return result;
+}
+
+describe('matchLogsToSpans', () => {
+  it('matches the same logs as a per-span scan', () => {
+    const spans = makeSpans(200);
+    const logs = makeLogs(spans, 2000);
+    const expected = naiveMatch(spans, logs);
+
+    const matched = matchLogsToSpans(buildTraceTree(spans), logs, 'overlapping');
+
+    expect(matched).toHaveLength(spans.length);
+    for (const span of matched) {
+      expect(span.logs).toEqual(expected.get(span.spanId)!.map((log) => expect.objectContaining(log)));
+    }
+  });
+
+  it('tags each matched log with its match method', () => {
+    const spans = makeSpans(5);
+    const logs: LogLine[] = [
+      { timestamp: microsecondsToNanoseconds(spans[1].startTime + 1), line: 'a', labels: {}, spanId: spans[1].spanId },
+      {
+        timestamp: microsecondsToNanoseconds(spans[2].startTime + 1),
+        line: 'b',
+        labels: {},
+        spanId: spans[2].spanId,
+        spanIdSource: 'regex',
+      },
+      {
+        timestamp: microsecondsToNanoseconds(spans[3].startTime + 1),
+        line: 'c',
+        labels: {},
+        spanId: spans[3].spanId,
+        spanIdSource: 'label',
+      },
+      { timestamp: microsecondsToNanoseconds(spans[4].startTime + 1), line: 'd', labels: {}, traceId: TRACE_ID },
+    ];
+
+    const matched = matchLogsToSpans(buildTraceTree(spans), logs, 'deepest');
+    const methodOf = (line: string) =>
+      matched.flatMap((span) => span.logs).find((log) => log.line === line)?.matchMethod;
+
+    expect(methodOf('a')).toBe('spanId');
+    expect(methodOf('b')).toBe('regex');
+    expect(methodOf('c')).toBe('label');
+    expect(methodOf('d')).toBe('timeWindow');
+  });
+
+  it('attributes trace-only logs to the deepest enclosing span in deepest mode', () => {
+    const spans = makeSpans(21);
+    const logs = makeLogs(spans, 2000);
+    const trace = buildTraceTree(spans);
+
+    const matched = matchLogsToSpans(trace, logs, 'deepest');
+
+    // Every log lands on exactly one span
+    expect(matched.reduce((sum, span) => sum + span.logs.length, 0)).toBe(logs.length);
+    for (const span of matched) {
+      for (const log of span.logs) {
+        if (!log.spanId) {
+          const t = nanosecondsToMicroseconds(log.timestamp);
+          const deeper = matched.filter(
+            (s) => (s.depth ?? 0) > (span.depth ?? 0) && t >= s.startTime - 1000 && t <= s.startTime + s.duration + 1000
+          );
+          expect(deeper).toHaveLength(0);
+        } else {
+          expect(log.spanId).toBe(span.spanId);
+        }
+      }
+    }
+  });
+
+  it('breaks ties between sibling spans with the log service label', () => {
+    const spans = makeSpans(3);
+    spans[2].startTime = spans[1].startTime;
+    const t = spans[1].startTime + 10;
+    const log: LogLine = {
+      timestamp: microsecondsToNanoseconds(t),
+      line: 'x',
+      labels: { service_name: spans[2].serviceName },
+      traceId: TRACE_ID,
+    };
+
+    const matched = matchLogsToSpans(buildTraceTree(spans), [log], 'deepest');
+
+    expect(matched.find((s) => s.spanId === spans[2].spanId)!.logs).toEqual([{ ...log, matchMethod: 'timeWindow' }]);
+    expect(matched.find((s) => s.spanId === spans[1].spanId)!.logs).toEqual([]);
+  });
+
+  it.each(['deepest', 'overlapping'] as const)(
+    'matches a 10k-span / 100k-log trace in well under a second (%s)',
+    (mode) => {
+      const spans = makeSpans(10_000);
+      const logs = makeLogs(spans, 100_000);
+      const trace = buildTraceTree(spans);
+      // Warm-up run so the timing measures matching, not JIT compilation
+      matchLogsToSpans(trace, logs.slice(0, 1000), mode);
+
+      const start = performance.now();
+      const matched = matchLogsToSpans(trace, logs, mode);
+      const elapsed = performance.now() - start;
+
+      expect(matched).toHaveLength(10_000);
+      // A few hundred ms on a single CI core; the bound is loose so slow runners do not flake
+      expect(elapsed).toBeLessThan(1000);
+    }
+  );
+});
+
+describe('findUnattributedLogs', () => {
+  it('lists trace logs outside every span window with their nearest span', () => {
+    const spans = makeSpans(5);
+    const root = spans[0];
+    const rootEnd = root.startTime + root.duration;
+    const log = (t: number, line: string, spanId?: string): LogLine => ({
+      timestamp: microsecondsToNanoseconds(t),
+      line,
+      labels: {},
+      traceId: TRACE_ID,
+      spanId,
+    });
+    const logs = [
+      log(rootEnd + 5_000_000, 'late retry'),
+      log(root.startTime - 2_000_000, 'early'),
+      log(root.startTime + 10, 'inside root', 'unknown-span'),
+      log(rootEnd + 9_000_000, 'known span', spans[2].spanId),
+      { ...log(rootEnd + 5_000_000, 'other trace'), traceId: 'other' },
+    ];
+
+    const unattributed = findUnattributedLogs(buildTraceTree(spans), logs);
+
+    expect(unattributed.map((entry) => entry.log.line)).toEqual(['early', 'late retry']);
+    expect(unattributed[0].offset).toBe(-2_000_000);
+    expect(unattributed[0].nearestSpan?.spanId).toBe(root.spanId);
+    expect(unattributed[1].nearestSpan?.spanId).toBe(root.spanId);
+  });
+});
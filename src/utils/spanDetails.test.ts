@@ -0,0 +1,87 @@
+import { toDataFrame } from '@grafana/data';
+import { getSpanSelfTime, groupSpanTags, spanMatchesTagFilters } from './spanDetails';
+import { tempoAdapter } from './adapters/tempo';
+
+describe('groupSpanTags', () => {
+  it('groups tags by namespace with the rest under Other', () => {
+    const groups = groupSpanTags({
+      'http.method': 'GET',
+      'db.system': 'postgres',
+      'service.name': 'checkout',
+      'rpc.service': 'Payments',
+      'messaging.system': 'kafka',
+      'http.status_code': 200,
+      'custom.flag': true,
+    });
+
+    expect(groups.map((g) => [g.id, g.tags.map(([key]) => key)])).toEqual([
+      ['http', ['http.method', 'http.status_code']],
+      ['db', ['db.system']],
+      ['rpc', ['rpc.service']],
+      ['messaging', ['messaging.system']],
+      ['resource', ['service.name']],
+      ['other', ['custom.flag']],
+    ]);
+  });
+
+  it('groups the service tags of Tempo spans under Resource / process', () => {
+    const frame = toDataFrame({
+      fields: [
+        { name: 'traceID', values: ['abc'] },
+        { name: 'spanID', values: ['s1'] },
+        { name: 'serviceName', values: ['api'] },
+        {
+          name: 'serviceTags',
+          values: [
+            [
+              { key: 'service.name', value: 'api' },
+              { key: 'k8s.pod.name', value: 'api-0' },
+            ],
+          ],
+        },
+        { name: 'startTime', values: [1_700_000_000_000] },
+        { name: 'duration', values: [5] },
+        { name: 'tags', values: [[{ key: 'http.method', value: 'GET' }]] },
+      ],
+    });
+    const [span] = tempoAdapter.parseFrame!(frame, { durationUnit: 'auto' });
+
+    expect(groupSpanTags(span.tags).map((g) => [g.id, g.tags.map(([key]) => key)])).toEqual([
+      ['http', ['http.method']],
+      ['resource', ['resource.k8s.pod.name', 'resource.service.name']],
+    ]);
+  });
+});
+
+describe('getSpanSelfTime', () => {
+  const child = (startTime: number, duration: number) => ({
+    traceId: 't',
+    spanId: `${startTime}`,
+    operationName: 'op',
+    serviceName: 'svc',
+    startTime,
+    duration,
+    tags: {},
+  });
+
+  it('subtracts the union of child intervals', () => {
+    // Children 10-30 and 20-40 overlap, 90-120 runs past the parent end (100)
+    const span = { startTime: 0, duration: 100, children: [child(10, 20), child(20, 20), child(90, 30)] };
+    expect(getSpanSelfTime(span)).toBe(60);
+  });
+
+  it('is the whole duration without children', () => {
+    expect(getSpanSelfTime({ startTime: 5, duration: 7 })).toBe(7);
+  });
+});
+
+describe('spanMatchesTagFilters', () => {
+  it('compares tag values as strings', () => {
+    const span = { tags: { 'http.status_code': 503, 'http.method': 'GET' } };
+
+    expect(spanMatchesTagFilters(span, [{ key: 'http.status_code', value: '503' }])).toBe(true);
+    expect(spanMatchesTagFilters(span, [{ key: 'http.method', value: 'POST' }])).toBe(false);
+    expect(spanMatchesTagFilters(span, [{ key: 'db.system', value: 'undefined' }])).toBe(false);
+    expect(spanMatchesTagFilters(span, [])).toBe(true);
+  });
+});
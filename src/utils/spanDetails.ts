@@ -0,0 +1,79 @@
+import { Span, SpanTagFilter } from '../types';
+
+type TagValue = string | number | boolean;
+
+export interface TagGroup {
+  id: string;
+  label: string;
+  tags: Array<[string, TagValue]>;
+}
+
+// Tag namespaces shown as groups in the span details, by key prefix (OTel semantic conventions); the rest is "Other"
+const TAG_NAMESPACES: Array<{ id: string; label: string; prefixes: string[] }> = [
+  { id: 'http', label: 'HTTP', prefixes: ['http.', 'url.', 'net.', 'server.', 'client.', 'user_agent.'] },
+  { id: 'db', label: 'Database', prefixes: ['db.'] },
+  { id: 'rpc', label: 'RPC', prefixes: ['rpc.', 'grpc.'] },
+  { id: 'messaging', label: 'Messaging', prefixes: ['messaging.'] },
+  {
+    id: 'resource',
+    label: 'Resource / process',
+    prefixes: [
+      'resource.',
+      'service.',
+      'process.',
+      'host.',
+      'os.',
+      'telemetry.',
+      'k8s.',
+      'container.',
+      'cloud.',
+      'deployment.',
+    ],
+  },
+];
+
+/**
+ * Group span tags by namespace, keys sorted within each group; empty groups are left out
+ */
+export function groupSpanTags(tags: Record<string, TagValue>): TagGroup[] {
+  const groups: TagGroup[] = TAG_NAMESPACES.map(({ id, label }) => ({ id, label, tags: [] }));
+  const other: TagGroup = { id: 'other', label: 'Other', tags: [] };
+
+  Object.keys(tags)
+    .sort()
+    .forEach((key) => {
+      const index = TAG_NAMESPACES.findIndex(({ prefixes }) => prefixes.some((p) => key.startsWith(p)));
+      (index >= 0 ? groups[index] : other).tags.push([key, tags[key]]);
+    });
+  return [...groups, other].filter((group) => group.tags.length > 0);
+}
+
+/**
+ * Time (µs) a span spends outside its children: its duration minus the union of the child intervals, clipped to
+ * the span (children overlapping each other or running past their parent are not counted twice)
+ */
+export function getSpanSelfTime(span: Pick<Span, 'startTime' | 'duration' | 'children'>): number {
+  const start = span.startTime;
+  const end = span.startTime + span.duration;
+  const intervals = (span.children ?? [])
+    .map((child) => [Math.max(start, child.startTime), Math.min(end, child.startTime + child.duration)])
+    .filter(([childStart, childEnd]) => childEnd > childStart)
+    .sort((a, b) => a[0] - b[0]);
+
+  let covered = 0;
+  let coveredUntil = start;
+  for (const [childStart, childEnd] of intervals) {
+    if (childEnd > coveredUntil) {
+      covered += childEnd - Math.max(childStart, coveredUntil);
+      coveredUntil = childEnd;
+    }
+  }
+  return Math.max(0, span.duration - covered);
+}
+
+/**
+ * Check whether a span has every tag value of the filters (compared as strings)
+ */
+export function spanMatchesTagFilters(span: Pick<Span, 'tags'>, filters: SpanTagFilter[]): boolean {
+  return filters.every(({ key, value }) => key in span.tags && String(span.tags[key]) === value);
+}
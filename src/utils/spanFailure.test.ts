@@ -0,0 +1,41 @@
+import { getSpanFailureReason, parseSpanFailureRules } from './spanFailure';
+
+describe('getSpanFailureReason', () => {
+  const rules = parseSpanFailureRules();
+
+  it('does not fail spans whose tags merely mention errors', () => {
+    expect(getSpanFailureReason({ tags: { 'error.expected': false, message: 'no failures' } }, rules)).toBeUndefined();
+  });
+
+  it('treats the OTel status as authoritative', () => {
+    expect(getSpanFailureReason({ tags: { 'otel.status_code': 'ERROR' } }, rules)).toBe('otel.status_code = ERROR');
+    expect(getSpanFailureReason({ tags: { 'status.code': 'OK', 'http.status_code': 503 } }, rules)).toBeUndefined();
+    expect(getSpanFailureReason({ tags: { 'otel.status_code': 'UNSET', 'http.status_code': 503 } }, rules)).toBe(
+      'http.status_code >= 500 (http.status_code = 503)'
+    );
+  });
+
+  it('reports the first rule that fires', () => {
+    expect(getSpanFailureReason({ tags: { 'http.status_code': '404' } }, rules)).toBeUndefined();
+    expect(getSpanFailureReason({ tags: { 'rpc.grpc.status_code': 14 } }, rules)).toBe(
+      'rpc.grpc.status_code != 0 (rpc.grpc.status_code = 14)'
+    );
+    expect(getSpanFailureReason({ tags: { 'rpc.grpc.status_code': 0 } }, rules)).toBeUndefined();
+  });
+
+  it('supports exists and contains rules', () => {
+    const custom = parseSpanFailureRules(['exception.type exists', 'db.statement contains "rollback"']);
+
+    expect(getSpanFailureReason({ tags: { 'exception.type': 'IOError' } }, custom)).toBe('exception.type exists');
+    expect(getSpanFailureReason({ tags: { 'db.statement': 'ROLLBACK' } }, custom)).toBe(
+      'db.statement contains "rollback" (db.statement = ROLLBACK)'
+    );
+  });
+
+  it('keeps invalid rules with an error', () => {
+    expect(parseSpanFailureRules(['http.status_code', 'error =='])).toEqual([
+      expect.objectContaining({ text: 'http.status_code', error: expect.any(String) }),
+      expect.objectContaining({ text: 'error ==', error: expect.any(String) }),
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { Span, SpanFailureRule } from '../types';
+
+/**
+ * Built-in span failure rules, used as the panel option default
+ */
+export const DEFAULT_SPAN_FAILURE_RULES = [
+  'http.status_code >= 500',
+  'http.response.status_code >= 500',
+  'rpc.grpc.status_code != 0',
+  'grpc.status_code != 0',
+  'error == true',
+];
+
+// Tags holding the OTel span status; when one is present it decides, rules only run on UNSET
+const STATUS_TAGS = ['otel.status_code', 'status.code'];
+
+// "<tag> <operator> <value>" or "<tag> exists"
+const RULE_PATTERN = /^(\S+)\s+(>=|<=|!=|==|=|>|<|contains|exists)(?:\s+(.*))?$/i;
+
+// A failure rule parsed from one line of the "Span failure rules" option
+export interface ParsedSpanFailureRule {
+  text: string;
+  rule?: SpanFailureRule;
+  error?: string;
+}
+
+/**
+ * Parse the user-supplied failure rules. Invalid lines are kept with their error so the editor can show it.
+ */
+export function parseSpanFailureRules(lines: string[] = DEFAULT_SPAN_FAILURE_RULES): ParsedSpanFailureRule[] {
+  return lines
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((text) => {
+      const match = RULE_PATTERN.exec(text);
+      if (!match) {
+        return { text, error: 'Expected "<tag> <operator> <value>" or "<tag> exists"' };
+      }
+      const operator = match[2].toLowerCase();
+      const value = match[3]?.trim().replace(/^(["'])(.*)\1$/, '$2');
+      if (operator !== 'exists' && !value) {
+        return { text, error: `Missing value after "${operator}"` };
+      }
+      return {
+        text,
+        rule: { tag: match[1], operator: (operator === '=' ? '==' : operator) as SpanFailureRule['operator'], value },
+      };
+    });
+}
+
+function findTag(tags: Span['tags'], key: string): [string, string | number | boolean] | undefined {
+  if (key in tags) {
+    return [key, tags[key]];
+  }
+  const lower = key.toLowerCase();
+  const found = Object.keys(tags).find((k) => k.toLowerCase() === lower);
+  return found !== undefined ? [found, tags[found]] : undefined;
+}
+
+function matchesRule({ operator, value = '' }: SpanFailureRule, tagValue: string | number | boolean): boolean {
+  const actual = String(tagValue).toLowerCase();
+  const expected = value.toLowerCase();
+  const actualNumber = Number(tagValue);
+  const expectedNumber = Number(value);
+  const numeric = actual !== '' && expected !== '' && isFinite(actualNumber) && isFinite(expectedNumber);
+  switch (operator) {
+    case 'exists':
+      return true;
+    case 'contains':
+      return actual.includes(expected);
+    case '==':
+      return numeric ? actualNumber === expectedNumber : actual === expected;
+    case '!=':
+      return numeric ? actualNumber !== expectedNumber : actual !== expected;
+    case '>=':
+      return numeric && actualNumber >= expectedNumber;
+    case '>':
+      return numeric && actualNumber > expectedNumber;
+    case '<=':
+      return numeric && actualNumber <= expectedNumber;
+    case '<':
+      return numeric && actualNumber < expectedNumber;
+  }
+}
+
+/**
+ * Whether a span carries the rule's tag with a matching value
+ */
+export function spanMatchesFailureRule(span: Pick<Span, 'tags'>, rule: SpanFailureRule): boolean {
+  const tag = findTag(span.tags, rule.tag);
+  return tag !== undefined && matchesRule(rule, tag[1]);
+}
+
+/**
+ * The OTel status tag of a span, when it is set (ERROR or OK)
+ */
+export function getSpanStatus(span: Pick<Span, 'tags'>): { tag: string; code: 'ERROR' | 'OK' } | undefined {
+  for (const key of STATUS_TAGS) {
+    const status = findTag(span.tags, key);
+    if (!status) {
+      continue;
+    }
+    const code = String(status[1]).toUpperCase();
+    if (code === 'ERROR' || code === 'STATUS_CODE_ERROR' || code === '2') {
+      return { tag: `${status[0]} = ${status[1]}`, code: 'ERROR' };
+    }
+    if (code === 'OK' || code === 'STATUS_CODE_OK' || code === '1') {
+      return { tag: `${status[0]} = ${status[1]}`, code: 'OK' };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Why a span failed, or undefined when it did not.
+ * An OTel status tag decides when present (ERROR fails, OK never does); UNSET falls through to the rules,
+ * which only apply to spans carrying their tag. The first matching rule is reported with the tag's value.
+ */
+export function getSpanFailureReason(span: Pick<Span, 'tags'>, rules: ParsedSpanFailureRule[]): string | undefined {
+  if (!span || !span.tags) {
+    return undefined;
+  }
+
+  const status = getSpanStatus(span);
+  if (status) {
+    return status.code === 'ERROR' ? status.tag : undefined;
+  }
+
+  for (const { text, rule } of rules) {
+    if (rule && spanMatchesFailureRule(span, rule)) {
+      const tag = findTag(span.tags, rule.tag)!;
+      return rule.operator === 'exists' ? text : `${text} (${tag[0]} = ${tag[1]})`;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,38 @@
+import { collectAncestorIds, findSearchMatches } from './spanSearch';
+import { LogLine, SpanWithLogs } from '../types';
+
+describe('span search', () => {
+  const span = (spanId: string, parentSpanId: string | undefined, extra: Partial<SpanWithLogs> = {}) => ({
+    spanId,
+    parentSpanId,
+    operationName: 'GET /api',
+    serviceName: 'frontend',
+    tags: {},
+    logs: [] as LogLine[],
+    ...extra,
+  });
+  const spans = [
+    span('root', undefined),
+    span('a', 'root', { serviceName: 'checkout' }),
+    span('b', 'a', { tags: { 'db.system': 'postgres' } }),
+    span('c', 'a', { logs: [{ timestamp: BigInt(0), line: 'Payment DECLINED for order 42', labels: {} }] }),
+    span('d', 'root', { tags: { 'http.status_code': 504 } }),
+  ];
+
+  it('matches names, IDs, tag keys and values, and log text', () => {
+    expect(findSearchMatches(spans, 'checkout')).toEqual(['a']);
+    expect(findSearchMatches(spans, 'POSTGRES')).toEqual(['b']);
+    expect(findSearchMatches(spans, 'db.system')).toEqual(['b']);
+    expect(findSearchMatches(spans, 'declined')).toEqual(['c']);
+    expect(findSearchMatches(spans, '504')).toEqual(['d']);
+    expect(findSearchMatches(spans, 'root')).toEqual(['root']);
+    expect(findSearchMatches(spans, '  ')).toEqual([]);
+  });
+
+  it('collects the ancestors of matches', () => {
+    const spanMap = new Map(spans.map((s) => [s.spanId, s]));
+
+    expect(collectAncestorIds(['b', 'c'], spanMap)).toEqual(new Set(['a', 'root']));
+    expect(collectAncestorIds(['root'], spanMap)).toEqual(new Set());
+  });
+});
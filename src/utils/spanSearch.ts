@@ -0,0 +1,54 @@
+import { SpanWithLogs } from '../types';
+
+type SearchableSpan = Pick<SpanWithLogs, 'spanId' | 'operationName' | 'serviceName' | 'tags' | 'logs'>;
+
+/**
+ * Check whether a span matches a search query (case-insensitive substring of the operation name, service, span ID,
+ * a tag key or value, or the text of a matched log)
+ */
+export function spanMatchesSearch(span: SearchableSpan, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return false;
+  }
+  const contains = (value: unknown) => String(value).toLowerCase().includes(needle);
+
+  if (contains(span.operationName) || contains(span.serviceName) || contains(span.spanId)) {
+    return true;
+  }
+  for (const key in span.tags) {
+    if (contains(key) || contains(span.tags[key])) {
+      return true;
+    }
+  }
+  return span.logs.some((log) => contains(log.line));
+}
+
+/**
+ * IDs of the spans matching a search query, in list order
+ */
+export function findSearchMatches(spans: SearchableSpan[], query: string): string[] {
+  if (!query.trim()) {
+    return [];
+  }
+  return spans.filter((span) => spanMatchesSearch(span, query)).map((span) => span.spanId);
+}
+
+/**
+ * IDs of all ancestors of the given spans (the spans themselves excluded unless they are an ancestor of another)
+ */
+export function collectAncestorIds(
+  spanIds: Iterable<string>,
+  spanMap: Map<string, { parentSpanId?: string }>
+): Set<string> {
+  const ancestors = new Set<string>();
+  for (const spanId of Array.from(spanIds)) {
+    let parentId = spanMap.get(spanId)?.parentSpanId;
+    // Stop at ancestors already collected from an earlier match (their own ancestors are in the set too)
+    while (parentId && spanMap.has(parentId) && !ancestors.has(parentId)) {
+      ancestors.add(parentId);
+      parentId = spanMap.get(parentId)?.parentSpanId;
+    }
+  }
+  return ancestors;
+}
@@ -0,0 +1,61 @@
+import { FieldType, toDataFrame } from '@grafana/data';
+import { detectEpochUnit, microsecondsToNanoseconds, nanosecondsToMicroseconds, toNanoseconds } from './timeUnits';
+import { parseLogData } from './traceUtils';
+
+describe('detectEpochUnit', () => {
+  it.each([
+    [[1_700_000_000], 'seconds'],
+    [[1_700_000_000_123], 'milliseconds'],
+    [[1_700_000_000_123_456], 'microseconds'],
+    [['1700000000123456789'], 'nanoseconds'],
+  ])('detects %s as %s', (values, unit) => {
+    expect(detectEpochUnit(values)).toBe(unit);
+  });
+});
+
+describe('toNanoseconds', () => {
+  it('parses nanosecond strings beyond 2^53 exactly', () => {
+    expect(toNanoseconds('1700000000123456789', 'nanoseconds')).toBe(BigInt('1700000000123456789'));
+  });
+
+  it('parses decimal strings digit by digit', () => {
+    expect(toNanoseconds('1700000000.123456789', 'seconds')).toBe(BigInt('1700000000123456789'));
+    expect(toNanoseconds('1700000000123.4567', 'milliseconds')).toBe(BigInt('1700000000123456700'));
+  });
+
+  it('converts numbers and dates', () => {
+    expect(toNanoseconds(1_700_000_000_123, 'milliseconds')).toBe(BigInt('1700000000123000000'));
+    expect(toNanoseconds(new Date(1_700_000_000_123), 'milliseconds')).toBe(BigInt('1700000000123000000'));
+    expect(toNanoseconds('not a time', 'nanoseconds')).toBeUndefined();
+  });
+
+  it('converts between microseconds and nanoseconds', () => {
+    expect(microsecondsToNanoseconds(1_700_000_000_123_456.5)).toBe(BigInt('1700000000123456500'));
+    expect(nanosecondsToMicroseconds(BigInt('1700000000123456500'))).toBe(1_700_000_000_123_456.5);
+  });
+});
+
+describe('parseLogData timestamps', () => {
+  it('keeps logs a few hundred nanoseconds apart in order', () => {
+    const frame = toDataFrame({
+      fields: [
+        { name: 'Time', type: FieldType.time, values: [1_700_000_000_123, 1_700_000_000_123, 1_700_000_000_123] },
+        { name: 'line', type: FieldType.string, values: ['third', 'first', 'second'] },
+        {
+          name: 'tsNs',
+          type: FieldType.string,
+          values: ['1700000000123000900', '1700000000123000100', '1700000000123000500'],
+        },
+      ],
+    });
+
+    const logs = parseLogData([frame]);
+
+    expect(logs.map((log) => log.line)).toEqual(['first', 'second', 'third']);
+    expect(logs.map((log) => String(log.timestamp))).toEqual([
+      '1700000000123000100',
+      '1700000000123000500',
+      '1700000000123000900',
+    ]);
+  });
+});
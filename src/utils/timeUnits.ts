@@ -0,0 +1,159 @@
+import { DetectedTimeUnit, TimeUnit } from '../types';
+
+// Microseconds in one unit; spans are kept in µs
+export const MICROSECONDS_PER_UNIT: Record<TimeUnit, number> = {
+  nanoseconds: 1 / 1000,
+  microseconds: 1,
+  milliseconds: 1000,
+  seconds: 1000000,
+};
+
+// Nanoseconds in one unit; log timestamps are kept in ns like Loki's
+export const NANOSECONDS_PER_UNIT: Record<TimeUnit, number> = {
+  nanoseconds: 1,
+  microseconds: 1000,
+  milliseconds: 1000000,
+  seconds: 1000000000,
+};
+
+export const TIME_UNIT_SYMBOLS: Record<TimeUnit, string> = {
+  nanoseconds: 'ns',
+  microseconds: 'µs',
+  milliseconds: 'ms',
+  seconds: 's',
+};
+
+/**
+ * "ms (detected)" / "ns (override)"
+ */
+export const formatDetectedTimeUnit = (unit: DetectedTimeUnit) => `${TIME_UNIT_SYMBOLS[unit.unit]} (${unit.source})`;
+
+/**
+ * Median of the first finite, positive sample values
+ */
+function sampleMedian(values: ArrayLike<unknown>, sampleSize = 50): number | undefined {
+  const samples: number[] = [];
+  for (let i = 0; i < Math.min(sampleSize, values.length); i++) {
+    const v = Number(values[i]);
+    if (isFinite(v) && v > 0) {
+      samples.push(v);
+    }
+  }
+  if (samples.length === 0) {
+    return undefined;
+  }
+  samples.sort((a, b) => a - b);
+  const mid = Math.floor(samples.length / 2);
+  return samples.length % 2 === 1 ? samples[mid] : (samples[mid - 1] + samples[mid]) / 2;
+}
+
+/**
+ * Detect the unit of epoch timestamps from their magnitude. Present-day epochs are about 1.7e9 s, 1.7e12 ms,
+ * 1.7e15 µs and 1.7e18 ns, so the thresholds sit three orders of magnitude apart with room on both sides.
+ */
+export function detectEpochUnit(values: ArrayLike<unknown>): TimeUnit | undefined {
+  const median = sampleMedian(values);
+  if (median === undefined) {
+    return undefined;
+  }
+  if (median >= 1e17) {
+    return 'nanoseconds';
+  }
+  if (median >= 1e14) {
+    return 'microseconds';
+  }
+  if (median >= 1e11) {
+    return 'milliseconds';
+  }
+  return 'seconds';
+}
+
+/**
+ * Detect the unit of span durations from their magnitude
+ */
+export function detectDurationUnit(values: ArrayLike<unknown>): TimeUnit | undefined {
+  const median = sampleMedian(values);
+  if (median === undefined) {
+    return undefined;
+  }
+  if (median >= 1e9) {
+    return 'nanoseconds';
+  }
+  if (median >= 1e6) {
+    return 'microseconds';
+  }
+  if (median >= 1e3) {
+    return 'milliseconds';
+  }
+  return 'seconds';
+}
+
+/**
+ * Resolve the unit of a time field: the override when set, otherwise the detected unit, otherwise the fallback
+ */
+export function resolveTimeUnit(
+  override: 'auto' | TimeUnit | undefined,
+  detect: () => TimeUnit | undefined,
+  fallback: TimeUnit
+): DetectedTimeUnit {
+  if (override && override !== 'auto') {
+    return { unit: override, source: 'override' };
+  }
+  return { unit: detect() ?? fallback, source: 'detected' };
+}
+
+// BigInt literals need an es2020 target
+const NS_PER_US = BigInt(1000);
+
+/**
+ * Convert an epoch time value to exact nanoseconds. Integer and decimal strings (Loki's tsNs) are parsed digit by
+ * digit instead of through a float, numbers are exact up to 2^53. Returns undefined for values that are not times.
+ */
+export function toNanoseconds(value: unknown, unit: TimeUnit): bigint | undefined {
+  const perUnit = NANOSECONDS_PER_UNIT[unit];
+  if (typeof value === 'bigint') {
+    return value * BigInt(perUnit);
+  }
+  if (typeof value === 'string') {
+    const match = /^\s*(-?)(\d+)(?:\.(\d*))?\s*$/.exec(value);
+    if (match) {
+      const [, sign, whole, fraction = ''] = match;
+      // Digits of the fraction that are still whole nanoseconds: 9 for seconds, 6 for ms, 3 for µs, 0 for ns
+      const digits = String(perUnit).length - 1;
+      const fractionNs = digits > 0 ? BigInt(fraction.slice(0, digits).padEnd(digits, '0')) : BigInt(0);
+      const ns = BigInt(whole) * BigInt(perUnit) + fractionNs;
+      return sign ? -ns : ns;
+    }
+  }
+  const n = value instanceof Date ? value.getTime() : Number(value);
+  if (value === null || value === '' || !isFinite(n)) {
+    return undefined;
+  }
+  if (Number.isSafeInteger(n)) {
+    return BigInt(n) * BigInt(perUnit);
+  }
+  const whole = Math.trunc(n);
+  return BigInt(whole) * BigInt(perUnit) + BigInt(Math.round((n - whole) * perUnit));
+}
+
+/**
+ * Nanoseconds to (fractional) microseconds, the span time scale
+ */
+export function nanosecondsToMicroseconds(ns: bigint): number {
+  return Number(ns / NS_PER_US) + Number(ns % NS_PER_US) / 1000;
+}
+
+/**
+ * Microseconds (span time scale) to nanoseconds, without going through a float beyond 2^53
+ */
+export function microsecondsToNanoseconds(us: number): bigint {
+  const whole = Math.trunc(us);
+  return BigInt(whole) * NS_PER_US + BigInt(Math.round((us - whole) * 1000));
+}
+
+/**
+ * Sort comparator for nanosecond timestamps
+ */
+export function compareNanoseconds(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,95 @@
+import { colorManipulator, createTheme } from '@grafana/data';
+import { buildTraceTree, createServiceColorScheme, getServiceColor } from './traceUtils';
+import { Span } from '../types';
+
+const span = (spanId: string, parentSpanId: string | undefined, startTime: number, duration: number): Span => ({
+  traceId: 'trace',
+  spanId,
+  parentSpanId,
+  operationName: spanId,
+  serviceName: 'svc',
+  startTime,
+  duration,
+  tags: {},
+});
+
+describe('buildTraceTree', () => {
+  it('hangs spans with a missing parent under a placeholder', () => {
+    const trace = buildTraceTree([span('root', undefined, 0, 100), span('orphan', 'gone', 150, 20)]);
+
+    expect(trace.rootSpan?.spanId).toBe('root');
+    expect(trace.orphanCount).toBe(1);
+    expect(trace.rootSpans.map((s) => s.spanId)).toEqual(['root', 'gone']);
+    expect(trace.rootSpans[1]).toMatchObject({
+      spanId: 'gone',
+      isPlaceholder: true,
+      serviceName: 'unknown',
+      startTime: 150,
+      duration: 20,
+      depth: 0,
+    });
+    expect(trace.rootSpans[1].children?.map((s) => [s.spanId, s.depth])).toEqual([['orphan', 1]]);
+    expect(trace).toMatchObject({ startTime: 0, endTime: 170, duration: 170 });
+  });
+
+  it('gives orphans sharing a missing parent one placeholder covering all of them', () => {
+    const trace = buildTraceTree([
+      span('a', 'gone', 40, 10),
+      span('b', 'gone', 10, 20),
+      span('c', 'other', 5, 5),
+      span('d', 'a', 42, 2),
+    ]);
+
+    expect(trace.orphanCount).toBe(3);
+    expect(trace.rootSpan).toBe(trace.rootSpans[0]);
+    // Placeholders sorted by start
+    expect(trace.rootSpans.map((s) => [s.spanId, s.startTime, s.duration])).toEqual([
+      ['other', 5, 5],
+      ['gone', 10, 40],
+    ]);
+    expect(trace.rootSpans[1].children?.map((s) => s.spanId)).toEqual(['a', 'b']);
+    expect(trace.spans.find((s) => s.spanId === 'd')?.depth).toBe(2);
+  });
+
+  it('breaks a parent cycle at its first span, which is shown top-level', () => {
+    const trace = buildTraceTree([span('root', undefined, 0, 100), span('x', 'y', 10, 10), span('y', 'x', 20, 10)]);
+
+    expect(trace.rootSpans.map((s) => s.spanId)).toEqual(['root', 'x']);
+    expect(trace.spans.map((s) => [s.spanId, s.depth, s.children?.map((c) => c.spanId)])).toEqual([
+      ['root', 0, []],
+      ['x', 0, ['y']],
+      ['y', 1, []],
+    ]);
+    expect(trace.orphanCount).toBe(0);
+  });
+});
+
+describe('getServiceColor', () => {
+  const theme = createTheme();
+
+  it('gives a service the same palette color in every scheme built from the same options', () => {
+    const color = getServiceColor('checkout');
+
+    expect(getServiceColor('checkout')).toBe(color);
+    expect(getServiceColor('checkout', createServiceColorScheme(theme))).toBe(color);
+    expect(color).toMatch(/^#[0-9A-F]{6}$/i);
+  });
+
+  it('prefers the override of a service and resolves theme color names', () => {
+    const scheme = createServiceColorScheme(theme, 'classic', [
+      { service: 'checkout', color: 'red' },
+      { service: '', color: 'blue' },
+    ]);
+
+    expect(getServiceColor('checkout', scheme)).toBe(
+      colorManipulator.asHexString(theme.visualization.getColorByName('red'))
+    );
+    expect(getServiceColor('cart', scheme)).toBe(getServiceColor('cart'));
+  });
+
+  it('keeps overrides with alpha usable for translucent bars', () => {
+    const scheme = createServiceColorScheme(theme, 'classic', [{ service: 'checkout', color: 'rgba(255, 0, 0, 0.5)' }]);
+
+    expect(colorManipulator.alpha(getServiceColor('checkout', scheme), 0.8)).toBe('#ff0000cc');
+  });
+});
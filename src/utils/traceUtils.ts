@@ -1,5 +1,30 @@
-import { DataFrame, Field } from '@grafana/data';
-import { LogLine, LogSeverity, Span, SpanWithLogs, Trace } from '../types';
+import { colorManipulator, DataFrame, GrafanaTheme2 } from '@grafana/data';
+import {
+  LogLevel,
+  LogLine,
+  LogMatchMethod,
+  LogMatchStats,
+  LogSeverity,
+  ParseDiagnostics,
+  ServiceColorScheme,
+  SeverityRules,
+  Span,
+  SpanLog,
+  SpanWithLogs,
+  TimeUnit,
+  Trace,
+} from '../types';
+import { getSpanFailureReason, parseSpanFailureRules, ParsedSpanFailureRule } from './spanFailure';
+import { classifyLogLevel, CompiledSeverityRules, compileSeverityRules } from './logSeverity';
+import { applyLogExtractionRules, compileLogExtractionRules, extractLogBodyIds, parseLogBody } from './logBody';
+import {
+  compareNanoseconds,
+  detectEpochUnit,
+  microsecondsToNanoseconds,
+  nanosecondsToMicroseconds,
+  resolveTimeUnit,
+  toNanoseconds,
+} from './timeUnits';
 
 /**
  * Service colors for consistent visualization
@@ -17,19 +42,52 @@ const SERVICE_COLORS = [
   '#B5179E', // Magenta
 ];
 
-const serviceColorMap: Map<string, string> = new Map();
-
-export function getServiceColor(serviceName: string): string {
-  if (serviceColorMap.has(serviceName)) {
-    return serviceColorMap.get(serviceName)!;
+/**
+ * FNV-1a hash of a string, so a service keeps its color across traces, panels and reloads
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
-  const color = SERVICE_COLORS[serviceColorMap.size % SERVICE_COLORS.length];
-  serviceColorMap.set(serviceName, color);
-  return color;
+  return hash >>> 0;
 }
 
+// Classic palette without overrides, for callers that have no panel options
+const DEFAULT_SERVICE_COLOR_SCHEME: ServiceColorScheme = { palette: SERVICE_COLORS, overrides: {} };
+
 /**
- * Determine the highest severity level from a list of logs
+ * Resolve the service color options (named or any CSS color) against the theme, as hex
+ */
+export function createServiceColorScheme(
+  theme: GrafanaTheme2,
+  palette: 'classic' | 'theme' = 'classic',
+  overrides: Array<{ service: string; color: string }> = []
+): ServiceColorScheme {
+  const toHex = (color: string) => colorManipulator.asHexString(theme.visualization.getColorByName(color));
+  const themePalette = theme.visualization.palette.map(toHex);
+  return {
+    palette: palette === 'theme' && themePalette.length > 0 ? themePalette : SERVICE_COLORS,
+    overrides: Object.fromEntries(
+      overrides.filter((o) => o.service && o.color).map((o) => [o.service, toHex(o.color)])
+    ),
+  };
+}
+
+/**
+ * Color of a service: its override when set, else a palette entry picked by a hash of the name
+ */
+export function getServiceColor(
+  serviceName: string,
+  scheme: ServiceColorScheme = DEFAULT_SERVICE_COLOR_SCHEME
+): string {
+  return scheme.overrides[serviceName] ?? scheme.palette[hashString(serviceName) % scheme.palette.length];
+}
+
+/**
+ * Determine the highest severity level from a list of logs.
+ * Log levels are classified by the panel's severity rules when the logs are parsed.
  */
 export function getLogSeverity(logs: LogLine[]): LogSeverity {
   if (!logs || logs.length === 0) {
@@ -38,40 +96,17 @@ export function getLogSeverity(logs: LogLine[]): LogSeverity {
 
   let hasWarning = false;
   let hasInfo = false;
-  let hasDebug = false;
 
   for (const log of logs) {
-    const logLine = log.line.toLowerCase();
-    const level = log.level?.toLowerCase();
-
-    // Check for error/critical/exception
-    if (
-      level === 'error' ||
-      level === 'critical' ||
-      level === 'fatal' ||
-      logLine.includes('error') ||
-      logLine.includes('exception') ||
-      logLine.includes('critical') ||
-      logLine.includes('fatal') ||
-      logLine.includes('crit')
-    ) {
+    if (log.level === 'error') {
       return 'error'; // Return immediately for errors (highest priority)
     }
-
-    // Check for warnings
-    if (level === 'warn' || level === 'warning' || logLine.includes('warn')) {
+    if (log.level === 'warn') {
       hasWarning = true;
     }
-
-    // Check for info
-    if (level === 'info') {
+    if (log.level === 'info' || !log.level) {
       hasInfo = true;
     }
-
-    // Check for debug
-    if (level === 'debug' || level === 'trace') {
-      hasDebug = true;
-    }
   }
 
   if (hasWarning) {
@@ -82,12 +117,8 @@ export function getLogSeverity(logs: LogLine[]): LogSeverity {
     return 'info';
   }
 
-  if (hasDebug) {
-    return 'debug';
-  }
-
-  // If there are logs but no identified level, default to info
-  return 'info';
+  // Only debug and trace logs
+  return 'debug';
 }
 
 /**
@@ -115,151 +146,22 @@ export function getColorBySeverity(
 }
 
 /**
- * Parse trace data from Grafana DataFrames (Tempo format)
+ * Earliest start and latest end of the spans. Reduced rather than spread into Math.min, which overflows the stack
+ * on large traces.
  */
-export function parseTraceData(
-  frames: DataFrame[],
-  durationUnit: 'auto' | 'microseconds' | 'milliseconds' | 'seconds' = 'auto'
-): Trace | null {
-  // Find the trace frame
-  const traceFrame = frames.find((frame) => {
-    const hasTraceId = frame.fields.some(
-      (f) =>
-        f.name?.toLowerCase().includes('traceid') ||
-        f.name?.toLowerCase().includes('trace_id') ||
-        f.name?.toLowerCase().includes('traceid')
-    );
-    const hasSpanId = frame.fields.some(
-      (f) =>
-        f.name?.toLowerCase().includes('spanid') ||
-        f.name?.toLowerCase().includes('span_id') ||
-        f.name?.toLowerCase().includes('spanid')
-    );
-    return hasTraceId && hasSpanId;
-  });
-
-  if (!traceFrame) {
-    console.log('No trace frame found');
-    return null;
-  }
-
-  console.log('Found trace frame');
-  console.log('Trace frame fields:', traceFrame.fields.map((f) => ({ name: f.name, type: f.type })));
-
-  const getField = (names: string[]): Field | undefined => {
-    return traceFrame.fields.find((f) => names.some((n) => f.name?.toLowerCase().includes(n.toLowerCase())));
-  };
-
-  const traceIdField = getField(['traceid', 'trace_id']);
-  const spanIdField = getField(['spanid', 'span_id']);
-  const parentSpanIdField = getField(['parentspanid', 'parent_span_id', 'parentSpanId']);
-  const operationNameField = getField(['operationname', 'operation_name', 'name']);
-  const serviceNameField = getField(['servicename', 'service_name', 'service']);
-  const startTimeField = getField(['starttime', 'start_time', 'startTime']);
-  const durationField = getField(['duration']);
-  const tagsField = getField(['tags', 'servicetags', 'service_tags']);
-
-  if (!traceIdField || !spanIdField || !startTimeField || !durationField) {
-    console.log('Missing required fields for trace parsing');
-    return null;
-  }
-
-  const spans: Span[] = [];
-  const length = traceFrame.length;
-
-  // Determine multiplier for duration unit. If 'auto', detect from sample values.
-  let durationMultiplier = 1;
-  let detectedUnit: string | null = null;
-  if (durationUnit === 'auto') {
-    try {
-      const samples: number[] = [];
-      for (let i = 0; i < Math.min(50, length); i++) {
-        const v = Number(durationField.values[i]);
-        if (isFinite(v) && v > 0) samples.push(v);
-      }
-      if (samples.length > 0) {
-        samples.sort((a, b) => a - b);
-        const mid = Math.floor(samples.length / 2);
-        const median = samples.length % 2 === 1 ? samples[mid] : (samples[mid - 1] + samples[mid]) / 2;
-        // Heuristics based on magnitude
-        if (median >= 1e9) {
-          detectedUnit = 'nanoseconds';
-          durationMultiplier = 1 / 1000; // ns -> µs
-        } else if (median >= 1e6) {
-          detectedUnit = 'microseconds';
-          durationMultiplier = 1; // µs
-        } else if (median >= 1e3) {
-          detectedUnit = 'milliseconds';
-          durationMultiplier = 1000; // ms -> µs
-        } else {
-          detectedUnit = 'seconds';
-          durationMultiplier = 1000000; // s -> µs
-        }
-        console.log('parseTraceData: auto-detected duration unit=', detectedUnit, 'median=', median);
-      }
-    } catch (e) {
-      // fallback
-      durationMultiplier = 1;
-    }
-  } else {
-    if (durationUnit === 'milliseconds') durationMultiplier = 1000;
-    if (durationUnit === 'seconds') durationMultiplier = 1000000;
-    detectedUnit = durationUnit;
-  }
-
-  for (let i = 0; i < length; i++) {
-    const tags: Record<string, string | number | boolean> = {};
-
-    // Parse tags if available
-    if (tagsField) {
-      const tagsValue = tagsField.values[i];
-      if (Array.isArray(tagsValue)) {
-        tagsValue.forEach((tag: { key: string; value: string | number | boolean }) => {
-          tags[tag.key] = tag.value;
-        });
-      } else if (tagsValue && typeof tagsValue === 'object') {
-        Object.assign(tags, tagsValue);
-      }
-    }
-
-    spans.push({
-      traceId: String(traceIdField.values[i]),
-      spanId: String(spanIdField.values[i]),
-      parentSpanId: parentSpanIdField ? String(parentSpanIdField.values[i] || '') : undefined,
-      operationName: operationNameField ? String(operationNameField.values[i] || 'unknown') : 'unknown',
-      serviceName: serviceNameField ? String(serviceNameField.values[i] || 'unknown') : 'unknown',
-      startTime: Number(startTimeField.values[i]) * durationMultiplier,
-      duration: Number(durationField.values[i]) * durationMultiplier,
-      tags,
-    });
-  }
-
-  // Debug: log sample raw and converted durations to help diagnose unit issues
-  try {
-    const sampleCount = Math.min(5, spans.length);
-    const rawSamples: number[] = [];
-    const convertedSamples: number[] = [];
-    for (let i = 0; i < sampleCount; i++) {
-      rawSamples.push(Number(durationField.values[i]));
-      convertedSamples.push(Number(durationField.values[i]) * durationMultiplier);
-    }
-    console.log('parseTraceData: durationUnit=', durationUnit, 'multiplier=', durationMultiplier);
-    console.log('parseTraceData: raw durations sample=', rawSamples, 'converted (µs)=', convertedSamples);
-  } catch (e) {
-    // ignore logging errors
-  }
-
-  if (spans.length === 0) {
-    console.log('No spans found');
-    return null;
-  }
-
-  console.log('Parsed', spans.length, 'spans');
-  return buildTraceTree(spans);
+export function getSpansWindow(spans: Span[]): { start: number; end: number } {
+  return spans.reduce(
+    (bounds, s) => ({
+      start: Math.min(bounds.start, s.startTime),
+      end: Math.max(bounds.end, s.startTime + s.duration),
+    }),
+    { start: Infinity, end: -Infinity }
+  );
 }
 
 /**
- * Build a trace tree from flat spans
+ * Build a trace tree from flat spans.
+ * Spans whose parent is missing are grouped under a placeholder span per missing parent, so no subtree is dropped.
  */
 export function buildTraceTree(spans: Span[]): Trace {
   const spanMap = new Map<string, Span>();
@@ -268,50 +170,79 @@ export function buildTraceTree(spans: Span[]): Trace {
     spanMap.set(span.spanId, span);
   });
 
-  let rootSpan: Span | undefined;
+  const roots: Span[] = [];
+  const orphansByParent = new Map<string, Span[]>();
   const services = new Set<string>();
 
   spans.forEach((span) => {
     services.add(span.serviceName);
 
     if (!span.parentSpanId || span.parentSpanId === '') {
-      rootSpan = span;
+      roots.push(span);
     } else {
       const parent = spanMap.get(span.parentSpanId);
       if (parent) {
         parent.children!.push(span);
       } else {
-        // Orphan span becomes a potential root
-        if (!rootSpan) {
-          rootSpan = span;
+        if (!orphansByParent.has(span.parentSpanId)) {
+          orphansByParent.set(span.parentSpanId, []);
         }
+        orphansByParent.get(span.parentSpanId)!.push(span);
       }
     }
   });
 
-  // If no root found, use the first span
-  if (!rootSpan && spans.length > 0) {
-    rootSpan = spans[0];
-  }
+  // One placeholder per missing parent, covering the time range of its orphaned children
+  const placeholders: Span[] = Array.from(orphansByParent.entries()).map(([parentSpanId, children]) => {
+    const { start, end } = getSpansWindow(children);
+    return {
+      traceId: children[0].traceId,
+      spanId: parentSpanId,
+      operationName: `missing parent (spanId ${parentSpanId})`,
+      serviceName: 'unknown',
+      startTime: start,
+      duration: end - start,
+      tags: {},
+      children,
+      isPlaceholder: true,
+    };
+  });
 
   // Calculate depths
+  const reached = new Set<Span>();
   const calculateDepth = (span: Span, depth: number) => {
+    reached.add(span);
     span.depth = depth;
     span.children?.forEach((child) => calculateDepth(child, depth + 1));
   };
 
-  if (rootSpan) {
-    calculateDepth(rootSpan, 0);
+  const rootSpans = [...roots, ...placeholders].sort((a, b) => a.startTime - b.startTime);
+  rootSpans.forEach((span) => calculateDepth(span, 0));
+
+  // Spans caught in a parent cycle are unreachable from any root; detach them and show them top-level
+  for (const span of spans) {
+    if (reached.has(span)) {
+      continue;
+    }
+    const parent = span.parentSpanId ? spanMap.get(span.parentSpanId) : undefined;
+    if (parent) {
+      parent.children = parent.children!.filter((c) => c !== span);
+    }
+    rootSpans.push(span);
+    calculateDepth(span, 0);
   }
 
+  const rootSpan = roots.length > 0 ? rootSpans.find((s) => roots.includes(s)) : rootSpans[0];
+
   // Calculate trace timing
-  const startTime = Math.min(...spans.map((s) => s.startTime));
-  const endTime = Math.max(...spans.map((s) => s.startTime + s.duration));
+  const { start: startTime, end: endTime } = getSpansWindow(spans);
 
   return {
     traceId: rootSpan?.traceId || spans[0].traceId,
     spans,
     rootSpan,
+    rootSpans,
+    orphanCount: Array.from(orphansByParent.values()).reduce((sum, children) => sum + children.length, 0),
     startTime,
     endTime,
     duration: endTime - startTime,
@@ -319,35 +250,51 @@ export function buildTraceTree(spans: Span[]): Trace {
   };
 }
 
+/**
+ * Flatten every top-level subtree of a trace into one array, in hierarchy order
+ */
+export function flattenTrace(trace: Trace): Span[] {
+  return trace.rootSpans.flatMap((span) => flattenSpans(span));
+}
+
 /**
  * Parse log data from Grafana DataFrames (Loki format)
  */
 export function parseLogData(
   frames: DataFrame[],
-  options?: { lokiTraceIdField?: string; lokiSpanIdField?: string }
+  options?: {
+    lokiTraceIdField?: string;
+    lokiSpanIdField?: string;
+    extractionRules?: string[];
+    severityRules?: SeverityRules;
+    timestampUnit?: 'auto' | TimeUnit;
+    // Filled in with the log frames parsed, the unit used for log timestamps and parse warnings
+    diagnostics?: ParseDiagnostics;
+  }
 ): LogLine[] {
   const logs: LogLine[] = [];
+  const extractionRules = compileLogExtractionRules(options?.extractionRules);
+  const severityRules = compileSeverityRules(options?.severityRules);
+
+  const diagnostics = options?.diagnostics;
 
-  for (const frame of frames) {
+  frames.forEach((frame, frameIndex) => {
     // Skip frames that don't have the right structure
     if (frame.length === 0) {
-      continue;
+      return;
     }
 
-    // Log frame info for debugging
-    console.log('🔍 Frame analysis:');
-    console.log('  Frame length:', frame.length);
-    console.log('  Frame fields:', frame.fields.map((f) => ({ name: f.name, type: f.type })));
-    console.log('  Custom field names - trace:', options?.lokiTraceIdField, ', span:', options?.lokiSpanIdField);
-
-    // Try to find time field with multiple possible names
-    const timeField = frame.fields.find(
-      (f) =>
-        f.name?.toLowerCase().includes('time') ||
-        f.name?.toLowerCase().includes('ts') ||
-        f.name?.toLowerCase().includes('timestamp') ||
-        f.type === 'time'
-    );
+    // Try to find time field with multiple possible names. Loki's tsNs (exact ns epoch as a string) comes first,
+    // its Time field only has millisecond precision
+    const timeField =
+      frame.fields.find((f) => f.name?.toLowerCase() === 'tsns') ??
+      frame.fields.find(
+        (f) =>
+          f.name?.toLowerCase().includes('time') ||
+          f.name?.toLowerCase().includes('ts') ||
+          f.name?.toLowerCase().includes('timestamp') ||
+          f.type === 'time'
+      );
 
     // Try to find log message field with multiple possible names
     const lineField = frame.fields.find(
@@ -362,11 +309,6 @@ export function parseLogData(
     // Try to find labels field
     const labelsField = frame.fields.find((f) => f.name?.toLowerCase().includes('label'));
 
-    // Log labels structure for debugging
-    if (labelsField && frame.length > 0) {
-      console.log('  Labels at index 0:', labelsField.values[0]);
-    }
-
     // Try to find level/severity
     const levelField = frame.fields.find((f) => {
       const name = f.name?.toLowerCase();
@@ -391,21 +333,47 @@ export function parseLogData(
       return name === customName || name?.includes(customName) || name?.includes('spanid') || name?.includes('span_id') || name?.includes('spanId');
     });
 
-    console.log('  ✅ Found fields:');
-    console.log('    - timeField:', timeField?.name);
-    console.log('    - lineField:', lineField?.name);
-    console.log('    - labelsField:', labelsField?.name);
-    console.log('    - traceIdField:', traceIdField?.name);
-    console.log('    - spanIdField:', spanIdField?.name);
-
     if (!timeField || !lineField) {
-      console.log('Skipping frame - missing time or line field');
-      continue;
+      // Frames already parsed as spans are expected to have no log line
+      if (diagnostics && !diagnostics.frames.some((f) => f.index === frameIndex)) {
+        diagnostics.warnings.push(
+          `Frame ${frame.refId ?? frame.name ?? frameIndex} skipped: no ${!timeField ? 'time' : 'log line'} field`
+        );
+      }
+      return;
     }
 
-    console.log('Processing log frame with', frame.length, 'entries');
+    // Timestamps are converted to exact ns; Grafana time fields are ms epoch, Loki's tsNs is ns
+    const timestampUnit = resolveTimeUnit(
+      options?.timestampUnit,
+      () => detectEpochUnit(timeField.values),
+      'nanoseconds'
+    );
+    if (diagnostics) {
+      diagnostics.logTimestamp = timestampUnit;
+      diagnostics.frames.push({
+        index: frameIndex,
+        refId: frame.refId,
+        parser: 'Logs',
+        rows: frame.length,
+        fields: {
+          time: timeField.name,
+          line: lineField.name,
+          labels: labelsField?.name,
+          level: levelField?.name,
+          traceId: traceIdField?.name,
+          spanId: spanIdField?.name,
+        },
+      });
+    }
 
+    let skipped = 0;
     for (let i = 0; i < frame.length; i++) {
+      const timestamp = toNanoseconds(timeField.values[i], timestampUnit.unit);
+      if (timestamp === undefined) {
+        skipped++;
+        continue;
+      }
       const labels: Record<string, string> = {};
 
       if (labelsField) {
@@ -418,6 +386,7 @@ export function parseLogData(
       const level = levelField?.values[i] as string | undefined;
       let traceIdValue = traceIdField ? String(traceIdField.values[i] || '') : undefined;
       let spanIdValue = spanIdField ? String(spanIdField.values[i] || '') : undefined;
+      let spanIdSource: LogLine['spanIdSource'] = spanIdValue ? 'field' : undefined;
 
       // If trace ID not found as separate field, try to extract from labels
       if (!traceIdValue && labels) {
@@ -427,156 +396,441 @@ export function parseLogData(
       // If span ID not found as separate field, try to extract from labels
       if (!spanIdValue && labels) {
         spanIdValue = labels['span_id'] || labels['spanId'] || labels['spanid'] || labels[customSpanIdField];
+        spanIdSource = spanIdValue ? 'label' : undefined;
+      }
+
+      // JSON and logfmt bodies may carry the IDs and level themselves
+      const line = String(lineField.values[i] || '');
+      const fields = parseLogBody(line);
+      const bodyValues = fields
+        ? extractLogBodyIds(fields, { traceId: options?.lokiTraceIdField, spanId: options?.lokiSpanIdField })
+        : {};
+      traceIdValue = traceIdValue || bodyValues.traceId;
+      if (!spanIdValue && bodyValues.spanId) {
+        spanIdValue = bodyValues.spanId;
+        spanIdSource = 'body';
       }
 
-      // Log first few entries for debugging
-      if (i < 2) {
-        console.log(`  Log entry ${i}:`, {
-          traceId: traceIdValue,
-          spanId: spanIdValue,
-          line: String(lineField.values[i] || '').substring(0, 50),
-          labels,
-        });
+      // Free-text lines: fall back to the configured regex rules
+      const ruleValues =
+        (!traceIdValue || !spanIdValue) && extractionRules.length > 0
+          ? applyLogExtractionRules(extractionRules, line)
+          : undefined;
+      traceIdValue = traceIdValue || ruleValues?.traceId;
+      if (!spanIdValue && ruleValues?.spanId) {
+        spanIdValue = ruleValues.spanId;
+        spanIdSource = 'regex';
       }
+
       logs.push({
-        timestamp: Number(timeField.values[i]),
-        line: String(lineField.values[i] || ''),
+        timestamp,
+        line,
         labels,
-        level: parseLogLevel(level || labels.level || labels.detected_level),
+        level: parseLogLevel(
+          severityRules,
+          line,
+          level || labels.level || bodyValues.level || ruleValues?.level || labels.detected_level,
+          fields?.severity_number ?? fields?.severityNumber ?? labels.severity_number
+        ),
         traceId: traceIdValue,
         spanId: spanIdValue,
+        spanIdSource,
+        fields,
       });
     }
-  }
+    if (skipped > 0) {
+      diagnostics?.warnings.push(
+        `Frame ${frame.refId ?? frame.name ?? frameIndex}: ${skipped} log lines skipped, ${timeField.name} is not a time`
+      );
+    }
+  });
 
-  console.log('Parsed', logs.length, 'logs total');
-  return logs.sort((a, b) => a.timestamp - b.timestamp);
+  return logs.sort((a, b) => compareNanoseconds(a.timestamp, b.timestamp));
 }
 
 /**
- * Parse log level from string
+ * Parse log level from the level value (string or number), OTel severity number and line text
  */
-function parseLogLevel(level?: string): LogLine['level'] {
-  if (!level) {
-    return 'info';
-  }
-  const l = level.toLowerCase();
-  if (l.includes('err') || l.includes('fatal') || l.includes('critical')) {
-    return 'error';
-  }
-  if (l.includes('warn')) {
-    return 'warn';
-  }
-  if (l.includes('debug')) {
-    return 'debug';
+function parseLogLevel(rules: CompiledSeverityRules, line: string, level?: unknown, severityNumber?: string): LogLevel {
+  return classifyLogLevel(rules, {
+    line,
+    level: level !== undefined && level !== null && level !== '' ? String(level) : undefined,
+    severityNumber: parseSeverityNumber(severityNumber),
+  });
+}
+
+function parseSeverityNumber(value?: string): number | undefined {
+  const n = value !== undefined && value !== '' ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Slack (µs) around a span window when matching logs by time, for timing discrepancies between Loki and Tempo
+const LOG_WINDOW_BUFFER = 1000;
+
+// Logs indexed for matching against the spans of one trace
+interface LogIndex {
+  // Logs by span ID, in input order
+  bySpanId: Map<string, LogLine[]>;
+  // Logs carrying the trace ID, sorted by time, with their timestamps converted to µs for binary search
+  traceLogs: LogLine[];
+  traceLogTimes: number[];
+}
+
+function buildLogIndex(traceId: string, logs: LogLine[]): LogIndex {
+  const bySpanId = new Map<string, LogLine[]>();
+  const traceLogs: LogLine[] = [];
+  for (const log of logs) {
+    if (log.spanId) {
+      const spanLogs = bySpanId.get(log.spanId);
+      if (spanLogs) {
+        spanLogs.push(log);
+      } else {
+        bySpanId.set(log.spanId, [log]);
+      }
+    }
+    if (log.traceId && log.traceId === traceId) {
+      traceLogs.push(log);
+    }
   }
-  if (l.includes('trace')) {
-    return 'trace';
+  // Loki uses ns, Tempo uses µs
+  traceLogs.sort((a, b) => compareNanoseconds(a.timestamp, b.timestamp));
+  return { bySpanId, traceLogs, traceLogTimes: traceLogs.map((log) => nanosecondsToMicroseconds(log.timestamp)) };
+}
+
+/**
+ * Index of the first value >= target in an ascending array
+ */
+function lowerBound(values: number[], target: number): number {
+  let lo = 0;
+  let hi = values.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (values[mid] < target) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
   }
-  return 'info';
+  return lo;
 }
 
 /**
- * Match logs to spans based on timing and trace/span IDs
+ * Index of the first value > target in an ascending array
  */
-export function matchLogsToSpans(trace: Trace, logs: LogLine[]): SpanWithLogs[] {
-  const flattenedSpans = flattenSpans(trace.rootSpan!);
+function upperBound(values: number[], target: number): number {
+  let lo = 0;
+  let hi = values.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (values[mid] <= target) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
 
-  console.log('🔗 Matching logs to spans:');
-  console.log('  Total spans:', flattenedSpans.length);
-  console.log('  Total logs:', logs.length);
-  console.log('  Trace ID:', trace.traceId);
+// Log labels naming the emitting service, used to break ties between equally deep spans
+const LOG_SERVICE_LABELS = ['service_name', 'service', 'app', 'application'];
 
-  // Show sample spans
-  if (flattenedSpans.length > 0) {
-    console.log('  Sample span 0:', {
-      traceId: flattenedSpans[0].traceId,
-      spanId: flattenedSpans[0].spanId,
-      operation: flattenedSpans[0].operationName,
-    });
-  }
+function getLogServiceName(log: LogLine): string | undefined {
+  const label = LOG_SERVICE_LABELS.find((l) => log.labels[l]);
+  return label ? log.labels[label] : undefined;
+}
 
-  // Show sample logs
-  if (logs.length > 0) {
-    console.log('  Sample log 0:', {
-      traceId: logs[0].traceId,
-      spanId: logs[0].spanId,
-      line: logs[0].line.substring(0, 50),
-    });
+/**
+ * Logs in a span's time window (with buffer), as a range of the time-sorted list
+ */
+function getWindowRange(times: number[], span: Span): [number, number] {
+  return [
+    lowerBound(times, span.startTime - LOG_WINDOW_BUFFER),
+    upperBound(times, span.startTime + span.duration + LOG_WINDOW_BUFFER),
+  ];
+}
+
+/**
+ * Merge two time-sorted log lists
+ */
+function mergeByTime(a: LogLine[], b: LogLine[]): LogLine[] {
+  if (a.length === 0 || b.length === 0) {
+    return a.length === 0 ? b : a;
   }
+  return a.concat(b).sort((x, y) => compareNanoseconds(x.timestamp, y.timestamp));
+}
 
-  return flattenedSpans.map((span) => {
-    const matchingLogs = logs.filter((log) => {
-      // If log has spanId, match directly
-      if (log.spanId && log.spanId === span.spanId) {
-        return true;
-      }
+/**
+ * Match method of a log matched through its own span ID, by where that ID came from
+ */
+function getSpanIdMatchMethod(log: LogLine): LogMatchMethod {
+  switch (log.spanIdSource) {
+    case 'label':
+      return 'label';
+    case 'regex':
+      return 'regex';
+    default:
+      return 'spanId';
+  }
+}
 
-      // If log has traceId but no spanId, check time window
-      if (log.traceId && log.traceId === span.traceId) {
-        // Convert nanoseconds to microseconds for comparison (Loki uses ns, Tempo uses µs)
-        const logTimeMicro = log.timestamp / 1000;
-        const spanStart = span.startTime;
-        const spanEnd = span.startTime + span.duration;
+// Copy of a log tagged with how it matched; Object.assign rather than spread, which is slow once transpiled for es5
+function withMatchMethod(log: LogLine, matchMethod: LogMatchMethod): LogLine {
+  return Object.assign({}, log, { matchMethod });
+}
 
-        // Add small buffer for timing discrepancies
-        const buffer = 1000; // 1ms buffer
-        return logTimeMicro >= spanStart - buffer && logTimeMicro <= spanEnd + buffer;
+/**
+ * "overlapping" mode: a log matches a span when it carries the span's ID, or when it carries the trace ID and falls
+ * inside the span's window, so a trace-level log shows up on the span and every ancestor
+ */
+function matchOverlapping(trace: Trace, spans: Span[], index: LogIndex): LogLine[][] {
+  // Window slices are taken from a tagged copy of the trace logs, so each log is copied once, not once per span
+  const windowTagged = index.traceLogs.map((log) => withMatchMethod(log, 'timeWindow'));
+  const positions = new Map<LogLine, number>(index.traceLogs.map((log, i) => [log, i]));
+
+  return spans.map((span) => {
+    const [lo, hi] = span.traceId === trace.traceId ? getWindowRange(index.traceLogTimes, span) : [0, 0];
+    const windowLogs = windowTagged.slice(lo, hi);
+
+    // Exact span ID matches replace their time-window copy, or are added when outside the window
+    const extraLogs: LogLine[] = [];
+    for (const log of index.bySpanId.get(span.spanId) ?? []) {
+      const exact = withMatchMethod(log, getSpanIdMatchMethod(log));
+      const position = positions.get(log);
+      if (position !== undefined && position >= lo && position < hi) {
+        windowLogs[position - lo] = exact;
+      } else {
+        extraLogs.push(exact);
       }
+    }
+    return mergeByTime(windowLogs, extraLogs);
+  });
+}
 
-      return false;
-    });
+/**
+ * "deepest" mode: logs carrying a span ID of this trace go to that span only. Every other log with the trace ID goes
+ * to the single deepest span whose window contains it; between equally deep spans, the one whose service matches the
+ * log's service label wins, otherwise the first in hierarchy order.
+ */
+function matchDeepest(trace: Trace, spans: Span[], index: LogIndex): LogLine[][] {
+  const spanIds = new Set(spans.map((span) => span.spanId));
+
+  const candidates: LogLine[] = [];
+  const candidateTimes: number[] = [];
+  index.traceLogs.forEach((log, i) => {
+    if (!log.spanId || !spanIds.has(log.spanId)) {
+      candidates.push(log);
+      candidateTimes.push(index.traceLogTimes[i]);
+    }
+  });
 
-    if (matchingLogs.length > 0) {
-      console.log(`  ✅ Span ${span.spanId}: ${matchingLogs.length} logs matched`);
+  // Spans are visited parents first, so a deeper span overrides the ancestors that claimed a log before it
+  const owners: number[] = new Array(candidates.length).fill(-1);
+  spans.forEach((span, spanIndex) => {
+    if (span.traceId !== trace.traceId || span.isPlaceholder) {
+      return;
     }
+    const depth = span.depth ?? 0;
+    const [lo, hi] = getWindowRange(candidateTimes, span);
+    for (let i = lo; i < hi; i++) {
+      const owner = owners[i];
+      if (owner < 0) {
+        owners[i] = spanIndex;
+        continue;
+      }
+      const ownerDepth = spans[owner].depth ?? 0;
+      if (ownerDepth < depth) {
+        owners[i] = spanIndex;
+      } else if (ownerDepth === depth) {
+        const service = getLogServiceName(candidates[i]);
+        if (service && service === span.serviceName && service !== spans[owner].serviceName) {
+          owners[i] = spanIndex;
+        }
+      }
+    }
+  });
 
-    return {
-      ...span,
-      logs: matchingLogs,
-      isExpanded: false,
-    };
+  const windowLogs: LogLine[][] = spans.map(() => []);
+  owners.forEach((owner, i) => {
+    if (owner >= 0) {
+      windowLogs[owner].push(withMatchMethod(candidates[i], 'timeWindow'));
+    }
   });
+  return spans.map((span, spanIndex) =>
+    mergeByTime(
+      windowLogs[spanIndex],
+      (index.bySpanId.get(span.spanId) ?? []).map((log) => withMatchMethod(log, getSpanIdMatchMethod(log)))
+    )
+  );
 }
 
 /**
- * Determine whether a span should be considered failed based on tags and values.
- * This is case-insensitive and tolerant of different tag names/values (e.g. "Status", "status", "otel.status_code", numeric codes).
+ * Confidence in a log-to-span match, from its match method
  */
-export function isSpanFailed(span: Span | SpanWithLogs): boolean {
-  if (!span || !span.tags) return false;
+export function getLogMatchConfidence(method?: LogMatchMethod): 'high' | 'medium' | 'low' {
+  switch (method) {
+    case 'timeWindow':
+      return 'low';
+    case 'regex':
+      return 'medium';
+    default:
+      return 'high';
+  }
+}
 
-  const tags = span.tags;
+/**
+ * Match logs to spans based on timing and trace/span IDs, in "overlapping" (default) or "deepest" mode.
+ * Logs are indexed once (span ID map plus a time-sorted trace list), so time-window lookups are binary searches
+ * instead of a scan of every log per span.
+ */
+export function matchLogsToSpans(
+  trace: Trace,
+  logs: LogLine[],
+  mode: 'deepest' | 'overlapping' = 'overlapping'
+): SpanWithLogs[] {
+  const flattenedSpans = flattenTrace(trace);
+  const index = buildLogIndex(trace.traceId, logs);
+
+  const spanLogs =
+    mode === 'overlapping'
+      ? matchOverlapping(trace, flattenedSpans, index)
+      : matchDeepest(trace, flattenedSpans, index);
+
+  const result = flattenedSpans.map((span, i) => ({
+    ...span,
+    logs: spanLogs[i],
+    events: span.logs ?? [],
+    isExpanded: false,
+  }));
 
-  // Check for common http status codes
-  const statusKeys = Object.keys(tags).filter((k) => k.toLowerCase().includes('status') || k.toLowerCase().includes('status_code') || k.toLowerCase().includes('status.code'));
+  return result;
+}
 
-  for (const k of statusKeys) {
-    const v = tags[k];
-    if (typeof v === 'number' && v >= 400) return true;
-    if (typeof v === 'string') {
-      const lv = v.toLowerCase();
-      const num = Number(v);
-      if ((isFinite(num) && num >= 400) || lv.includes('error') || lv.includes('fail') || lv.includes('exception')) return true;
+/**
+ * Trace logs that no span claims: their span ID is not part of the trace and their timestamp falls outside every
+ * span window. Each comes with its offset from trace start (µs) and the span closest to it in time, oldest first.
+ */
+export function findUnattributedLogs(
+  trace: Trace,
+  logs: LogLine[]
+): Array<{ log: LogLine; offset: number; nearestSpan?: Span }> {
+  const spans = trace.spans.filter((span) => !span.isPlaceholder);
+  const spanIds = new Set(spans.map((span) => span.spanId));
+  const byStart = [...spans].sort((a, b) => a.startTime - b.startTime);
+  const byEnd = [...spans].sort((a, b) => a.startTime + a.duration - (b.startTime + b.duration));
+  const starts = byStart.map((span) => span.startTime - LOG_WINDOW_BUFFER);
+  const ends = byEnd.map((span) => span.startTime + span.duration + LOG_WINDOW_BUFFER);
+
+  // Merged span windows, to test whether a timestamp is covered with one binary search
+  const windows: Array<[number, number]> = [];
+  byStart.forEach((span, i) => {
+    const end = span.startTime + span.duration + LOG_WINDOW_BUFFER;
+    const last = windows[windows.length - 1];
+    if (last && starts[i] <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      windows.push([starts[i], end]);
     }
+  });
+  const windowStarts = windows.map((w) => w[0]);
+
+  const traceStartNs = microsecondsToNanoseconds(trace.startTime);
+  const unattributed: Array<{ log: LogLine; offset: number; nearestSpan?: Span }> = [];
+  for (const log of logs) {
+    if (log.traceId !== trace.traceId || (log.spanId && spanIds.has(log.spanId))) {
+      continue;
+    }
+    const t = nanosecondsToMicroseconds(log.timestamp);
+    const window = windows[upperBound(windowStarts, t) - 1];
+    if (window && t <= window[1]) {
+      continue;
+    }
+    // Outside every window, so the nearest span either ended last before t or starts first after it
+    const before = byEnd[upperBound(ends, t) - 1];
+    const after = byStart[lowerBound(starts, t)];
+    const distanceBefore = before ? t - (before.startTime + before.duration) : Infinity;
+    const distanceAfter = after ? after.startTime - t : Infinity;
+    unattributed.push({
+      log,
+      offset: Number(log.timestamp - traceStartNs) / 1000,
+      nearestSpan: distanceBefore <= distanceAfter ? before : after,
+    });
   }
+  return unattributed.sort((a, b) => compareNanoseconds(a.log.timestamp, b.log.timestamp));
+}
 
-  // Generic checks across all tags for 'error' indicators
-  for (const k of Object.keys(tags)) {
-    const v = tags[k];
-    const keyLower = k.toLowerCase();
-    if (keyLower.includes('error') || keyLower.includes('err')) {
-      if (v === true) return true;
-      if (typeof v === 'string' && v.toLowerCase() === 'true') return true;
-      if (typeof v === 'string' && v.toLowerCase().includes('error')) return true;
+/**
+ * Count matched logs per match method, for the Diagnostics overlay
+ */
+export function getLogMatchStats(spans: SpanWithLogs[], unattributed: number): LogMatchStats {
+  const byMethod: Record<LogMatchMethod, number> = { spanId: 0, label: 0, regex: 0, timeWindow: 0 };
+  let spansWithLogs = 0;
+  for (const span of spans) {
+    if (span.logs.length > 0) {
+      spansWithLogs++;
     }
-    if (typeof v === 'string') {
-      const lv = v.toLowerCase();
-      if (lv.includes('error') || lv.includes('fail') || lv.includes('exception')) return true;
+    for (const log of span.logs) {
+      byMethod[log.matchMethod ?? 'spanId']++;
     }
   }
+  return { byMethod, spansWithLogs, unattributed };
+}
+
+// Failure rules used when the panel options have none
+const DEFAULT_FAILURE_RULES = parseSpanFailureRules();
 
-  return false;
+/**
+ * Determine whether a span should be considered failed, from its OTel status or the span failure rules
+ */
+export function isSpanFailed(
+  span: Span | SpanWithLogs,
+  rules: ParsedSpanFailureRule[] = DEFAULT_FAILURE_RULES
+): boolean {
+  return getSpanFailureReason(span, rules) !== undefined;
+}
+
+/**
+ * Why a span is shown as failed: its OTel status or a failure rule, else an error log correlated with it
+ */
+export function getSpanErrorReason(
+  span: SpanWithLogs,
+  rules: ParsedSpanFailureRule[] = DEFAULT_FAILURE_RULES
+): string | undefined {
+  return getSpanFailureReason(span, rules) ?? (span.logs.some((l) => l.level === 'error') ? 'Error log' : undefined);
+}
+
+/**
+ * Display name of a span event: its name, or the conventional "event"/"message" field
+ */
+export function getSpanEventName(event: SpanLog): string {
+  if (event.name) {
+    return event.name;
+  }
+  const field = event.fields.find((f) => f.key === 'event' || f.key === 'message');
+  return field ? String(field.value) : 'event';
+}
+
+/**
+ * Whether a span event records an exception (OTel "exception" event or exception.* attributes)
+ */
+export function isExceptionEvent(event: SpanLog): boolean {
+  return (
+    getSpanEventName(event).toLowerCase() === 'exception' ||
+    event.fields.some((f) => f.key.toLowerCase().startsWith('exception.'))
+  );
+}
+
+/**
+ * Build a Grafana Explore URL that opens a trace by ID in the given Tempo datasource
+ */
+export function getTraceExploreUrl(traceId: string, datasourceUid: string, range: { from: string; to: string }): string {
+  const panes = {
+    trace: {
+      datasource: datasourceUid,
+      queries: [{ refId: 'A', datasource: { type: 'tempo', uid: datasourceUid }, queryType: 'traceql', query: traceId }],
+      range,
+    },
+  };
+  return `/explore?schemaVersion=1&panes=${encodeURIComponent(JSON.stringify(panes))}`;
 }
 
 /**
@@ -597,36 +851,22 @@ export function flattenSpans(span: Span | undefined): Span[] {
 }
 
 /**
- * Format duration from microseconds to human readable
+ * Format duration from microseconds to human readable, optionally precise enough for a given resolution (µs)
  */
-export function formatDuration(microseconds: number): string {
-  // Accept either microseconds or milliseconds by auto-detecting the magnitude.
+export function formatDuration(microseconds: number, resolution?: number): string {
   if (!isFinite(microseconds) || microseconds <= 0) {
     return '0µs';
   }
 
-  let micros = microseconds;
-
-  // Heuristics to determine unit:
-  // - If value looks like microseconds (>= 1e6), treat as µs
-  // - If value looks like milliseconds (>= 1e3 and < 1e6), treat as ms and convert to µs
-  // - Otherwise treat as µs
-  if (microseconds >= 1e6) {
-    micros = microseconds; // already µs
-  } else if (microseconds >= 1e3) {
-    // most likely milliseconds -> convert to µs
-    micros = microseconds * 1000;
-  } else {
-    micros = microseconds; // small values are µs
-  }
-
-  if (micros < 1000) {
-    return `${micros.toFixed(0)}µs`;
-  }
-  if (micros < 1000000) {
-    return `${(micros / 1000).toFixed(2)}ms`;
-  }
-  return `${(micros / 1000000).toFixed(2)}s`;
+  const divisor = microseconds < 1000 ? 1 : microseconds < 1000000 ? 1000 : 1000000;
+  const unit = divisor === 1 ? 'µs' : divisor === 1000 ? 'ms' : 's';
+  const defaultDigits = divisor === 1 ? 0 : 2;
+  // Enough decimals to tell apart values `resolution` µs apart (zoomed timeline markers)
+  const digits =
+    resolution && resolution > 0
+      ? Math.min(6, Math.max(defaultDigits, Math.ceil(Math.log10(divisor / resolution))))
+      : defaultDigits;
+  return `${(microseconds / divisor).toFixed(digits)}${unit}`;
 }
 
 /**
@@ -738,6 +978,8 @@ export function generateMockTrace(): Trace {
     traceId,
     spans,
     rootSpan: spans[0],
+    rootSpans: [spans[0]],
+    orphanCount: 0,
     startTime: now,
     endTime: now + 150000,
     duration: 150000,
@@ -751,7 +993,7 @@ export function generateMockTrace(): Trace {
 export function generateMockLogs(trace: Trace): LogLine[] {
   const logs: LogLine[] = [];
 
-  const flatSpans = flattenSpans(trace.rootSpan);
+  const flatSpans = flattenTrace(trace);
 
   flatSpans.forEach((span) => {
     // Add 1-3 logs per span
@@ -791,7 +1033,7 @@ export function generateMockLogs(trace: Trace): LogLine[] {
       const message = messageOptions[Math.floor(Math.random() * messageOptions.length)];
 
       logs.push({
-        timestamp: spanStartNs + offset,
+        timestamp: BigInt(Math.round(spanStartNs + offset)),
         line: `[${new Date((spanStartNs + offset) / 1000000).toISOString()}] ${level?.toUpperCase()} ${span.serviceName}: ${message}`,
         labels: {
           service: span.serviceName,
@@ -804,5 +1046,5 @@ export function generateMockLogs(trace: Trace): LogLine[] {
     }
   });
 
-  return logs.sort((a, b) => a.timestamp - b.timestamp);
+  return logs.sort((a, b) => compareNanoseconds(a.timestamp, b.timestamp));
 }
@@ -0,0 +1,49 @@
+import { clampViewRange, getViewMarkers, getWheelPanDelta, panViewRange, zoomViewRange } from './viewRange';
+import { formatDuration } from './traceUtils';
+import { ViewRange } from '../types';
+
+describe('view range', () => {
+  const expectRange = (range: ViewRange, start: number, end: number) => {
+    expect(range.start).toBeCloseTo(start);
+    expect(range.end).toBeCloseTo(end);
+  };
+
+  it('zooms into a selection of the current view', () => {
+    expectRange(zoomViewRange({ start: 0, end: 1 }, 0.75, 0.25), 0.25, 0.75);
+    expectRange(zoomViewRange({ start: 0.5, end: 1 }, 0, 0.5), 0.5, 0.75);
+  });
+
+  it('keeps at least the minimum width around the selection', () => {
+    expectRange(zoomViewRange({ start: 0, end: 1 }, 0.5, 0.5, 0.1), 0.45, 0.55);
+    expectRange(zoomViewRange({ start: 0, end: 1 }, 1, 1, 0.1), 0.9, 1);
+  });
+
+  it('pans without leaving the trace', () => {
+    expectRange(panViewRange({ start: 0.2, end: 0.4 }, 0.5), 0.3, 0.5);
+    expectRange(panViewRange({ start: 0.2, end: 0.4 }, -5), 0, 0.2);
+    expectRange(clampViewRange(0.9, 1.2), 0.7, 1);
+  });
+
+  it('places markers across the zoomed range', () => {
+    expect(getViewMarkers(30_000_000, { start: 0.5, end: 0.5001 }, 2)).toEqual([15_000_000, 15_001_500, 15_003_000]);
+  });
+
+  it('pans on horizontal or Shift+wheel only', () => {
+    expect(getWheelPanDelta({ deltaX: 30, deltaY: 5, shiftKey: false })).toBe(30);
+    expect(getWheelPanDelta({ deltaX: 0, deltaY: 40, shiftKey: true })).toBe(40);
+    expect(getWheelPanDelta({ deltaX: 2, deltaY: 40, shiftKey: false })).toBe(0);
+  });
+});
+
+describe('formatDuration', () => {
+  it('treats values as microseconds', () => {
+    expect(formatDuration(5)).toBe('5µs');
+    expect(formatDuration(1500)).toBe('1.50ms');
+    expect(formatDuration(2_500_000)).toBe('2.50s');
+  });
+
+  it('adds decimals for fine resolutions', () => {
+    expect(formatDuration(15_001_200, 1500)).toBe('15.001s');
+    expect(formatDuration(15_001_500, 1_000_000)).toBe('15.00s');
+  });
+});
@@ -0,0 +1,92 @@
+import { MouseEvent as ReactMouseEvent } from 'react';
+import { ViewRange } from '../types';
+
+export const FULL_VIEW_RANGE: ViewRange = { start: 0, end: 1 };
+
+/**
+ * Keep a view range inside the trace, at least `minWidth` wide; a range pushed past an edge keeps its width
+ */
+export function clampViewRange(start: number, end: number, minWidth = 0): ViewRange {
+  const width = Math.min(1, Math.max(end - start, minWidth));
+  const clampedStart = Math.min(Math.max(0, start), 1 - width);
+  return { start: clampedStart, end: clampedStart + width };
+}
+
+/**
+ * Smallest view range width for a trace: one microsecond, so the bars of the shortest spans can still be told apart
+ */
+export function getMinViewWidth(traceDuration: number): number {
+  return traceDuration > 1 ? 1 / traceDuration : 1;
+}
+
+/**
+ * Zoom into part of the current view; `from` and `to` are fractions of the current view (in any order)
+ */
+export function zoomViewRange(range: ViewRange, from: number, to: number, minWidth = 0): ViewRange {
+  const width = range.end - range.start;
+  const low = Math.max(0, Math.min(from, to));
+  const high = Math.min(1, Math.max(from, to));
+  const start = range.start + low * width;
+  const end = range.start + high * width;
+  // Zooming below the minimum width keeps the selection centered
+  const center = (start + end) / 2;
+  return end - start < minWidth
+    ? clampViewRange(center - minWidth / 2, center + minWidth / 2, minWidth)
+    : clampViewRange(start, end, minWidth);
+}
+
+/**
+ * Move the view by a fraction of its own width (negative values pan towards the trace start)
+ */
+export function panViewRange(range: ViewRange, delta: number): ViewRange {
+  const width = range.end - range.start;
+  return clampViewRange(range.start + delta * width, range.end + delta * width);
+}
+
+/**
+ * Pan distance (px) of a wheel event: horizontal scrolling, or vertical with Shift held. Plain vertical scrolling
+ * gives 0 and is left to scroll the page.
+ */
+export function getWheelPanDelta(event: { deltaX: number; deltaY: number; shiftKey: boolean }): number {
+  if (Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+    return event.deltaX;
+  }
+  return event.shiftKey ? event.deltaY : 0;
+}
+
+/**
+ * Offsets from the trace start (µs) of evenly spaced markers across the view range
+ */
+export function getViewMarkers(traceDuration: number, range: ViewRange, steps: number): number[] {
+  const markers: number[] = [];
+  const viewDuration = (range.end - range.start) * traceDuration;
+  for (let i = 0; i <= steps; i++) {
+    markers.push(range.start * traceDuration + (viewDuration / steps) * i);
+  }
+  return markers;
+}
+
+/**
+ * Follow a mouse drag started on `element`, reporting the pointer position as a fraction of the element width
+ * (not clamped, so drags can run past the edges)
+ */
+export function trackDrag(
+  event: ReactMouseEvent,
+  element: HTMLElement,
+  onMove: (fraction: number, startFraction: number) => void,
+  onEnd?: (fraction: number, startFraction: number) => void
+) {
+  const rect = element.getBoundingClientRect();
+  const toFraction = (clientX: number) => (rect.width > 0 ? (clientX - rect.left) / rect.width : 0);
+  const startFraction = toFraction(event.clientX);
+  event.preventDefault();
+
+  const handleMove = (e: MouseEvent) => onMove(toFraction(e.clientX), startFraction);
+  const handleUp = (e: MouseEvent) => {
+    window.removeEventListener('mousemove', handleMove);
+    window.removeEventListener('mouseup', handleUp);
+    onEnd?.(toFraction(e.clientX), startFraction);
+  };
+  window.addEventListener('mousemove', handleMove);
+  window.addEventListener('mouseup', handleUp);
+}
@@ -0,0 +1,33 @@
+import { computeItemOffsets, findItemAtOffset, getVisibleRange } from './virtualList';
+
+describe('virtual list layout', () => {
+  const keys = ['a', 'b', 'c', 'd', 'e'];
+  // b is an expanded row with logs, the others use the estimate
+  const offsets = computeItemOffsets(keys, new Map([['b', 300]]), 50);
+
+  it('uses measured heights and the estimate for the rest', () => {
+    expect(offsets).toEqual([0, 50, 350, 400, 450, 500]);
+  });
+
+  it('finds the item covering an offset', () => {
+    expect(findItemAtOffset(offsets, 0)).toBe(0);
+    expect(findItemAtOffset(offsets, 50)).toBe(1);
+    expect(findItemAtOffset(offsets, 349)).toBe(1);
+    expect(findItemAtOffset(offsets, 10_000)).toBe(4);
+    expect(findItemAtOffset([0], 10)).toBe(0);
+  });
+
+  it('renders only the items around the viewport', () => {
+    expect(getVisibleRange(offsets, 100, 100, 0)).toEqual({ start: 1, end: 2 });
+    expect(getVisibleRange(offsets, 100, 100, 60)).toEqual({ start: 0, end: 2 });
+    expect(getVisibleRange(offsets, 0, 1000, 0)).toEqual({ start: 0, end: 5 });
+    expect(getVisibleRange([0], 0, 1000, 0)).toEqual({ start: 0, end: 0 });
+  });
+
+  it('keeps a 50k item layout cheap to search', () => {
+    const many = Array.from({ length: 50_000 }, (_, i) => `span-${i}`);
+    const manyOffsets = computeItemOffsets(many, new Map(), 40);
+
+    expect(getVisibleRange(manyOffsets, 40 * 25_000, 400, 0)).toEqual({ start: 25_000, end: 25_011 });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Range of list items to render, `end` excluded
+ */
+export interface VirtualRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Top offset of every item from measured heights (estimate for items not measured yet), with the total height of
+ * the list as last entry
+ */
+export function computeItemOffsets(keys: string[], heights: Map<string, number>, estimatedHeight: number): number[] {
+  const offsets = new Array<number>(keys.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < keys.length; i++) {
+    offsets[i + 1] = offsets[i] + (heights.get(keys[i]) ?? estimatedHeight);
+  }
+  return offsets;
+}
+
+/**
+ * Index of the item covering an offset (binary search over the item offsets)
+ */
+export function findItemAtOffset(offsets: number[], offset: number): number {
+  const count = offsets.length - 1;
+  if (count <= 0) {
+    return 0;
+  }
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Items intersecting the viewport, extended by `overscan` pixels above and below
+ */
+export function getVisibleRange(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number
+): VirtualRange {
+  const count = offsets.length - 1;
+  if (count <= 0) {
+    return { start: 0, end: 0 };
+  }
+  const start = findItemAtOffset(offsets, Math.max(0, scrollTop - overscan));
+  const end = findItemAtOffset(offsets, scrollTop + viewportHeight + overscan) + 1;
+  return { start, end: Math.min(count, end) };
+}